@@ -14,6 +14,21 @@ export default withAuth(
           return true;
         }
 
+        // Shared threads are public. The API proxy checks each request
+        // against the thread's share flag.
+        if (
+          req.nextUrl.pathname.startsWith("/share/") ||
+          req.nextUrl.pathname.startsWith("/api/share/")
+        ) {
+          return true;
+        }
+
+        // Uploaded attachments are fetched by the model provider, so they're
+        // served without a session. Creating uploads still requires one.
+        if (req.nextUrl.pathname.startsWith("/api/uploads/files/")) {
+          return true;
+        }
+
         // For all other pages, require authentication
         return !!token;
       },
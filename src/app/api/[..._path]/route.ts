@@ -1,11 +1,56 @@
 import { initApiPassthrough } from "langgraph-nextjs-api-passthrough";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SHARE_API_PREFIX,
+  fetchIsThreadShared,
+  getSharedThreadId,
+} from "@/lib/thread-sharing";
 
 // This file acts as a proxy for requests to your LangGraph server.
 // Read the [Going to Production](https://github.com/langchain-ai/agent-chat-ui?tab=readme-ov-file#going-to-production) section for more information.
 
-export const { GET, POST, PUT, PATCH, DELETE, OPTIONS, runtime } =
-  initApiPassthrough({
-    apiUrl: process.env.LANGGRAPH_API_URL ?? "remove-me", // default, if not defined it will attempt to read process.env.LANGGRAPH_API_URL
-    apiKey: process.env.LANGSMITH_API_KEY ?? "remove-me", // default, if not defined it will attempt to read process.env.LANGSMITH_API_KEY
-    runtime: "edge", // default
-  });
+const apiUrl = process.env.LANGGRAPH_API_URL ?? "remove-me"; // default, if not defined it will attempt to read process.env.LANGGRAPH_API_URL
+const apiKey = process.env.LANGSMITH_API_KEY ?? "remove-me"; // default, if not defined it will attempt to read process.env.LANGSMITH_API_KEY
+
+const passthrough = initApiPassthrough({
+  apiUrl,
+  apiKey,
+  runtime: "edge", // default
+});
+
+// Forwards `/api/share/*` requests with the share prefix stripped
+const sharePassthrough = initApiPassthrough({
+  apiUrl,
+  apiKey,
+  runtime: "edge",
+  baseRoute: SHARE_API_PREFIX,
+});
+
+type Method = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+function withShareCheck(method: Method) {
+  return async (req: NextRequest) => {
+    const path = req.nextUrl.pathname
+      .replace(/^\/?api\//, "")
+      .split("/")
+      .filter(Boolean);
+    if (path[0] !== SHARE_API_PREFIX) {
+      return passthrough[method](req);
+    }
+
+    // Shared threads are readable without signing in, so respond with 404
+    // for anything that isn't a read of a thread marked as shared.
+    const threadId = getSharedThreadId(path.slice(1), method);
+    if (!threadId || !(await fetchIsThreadShared(apiUrl, apiKey, threadId))) {
+      return NextResponse.json({ error: "Not found" }, { status: 404 });
+    }
+    return sharePassthrough[method](req);
+  };
+}
+
+export const GET = withShareCheck("GET");
+export const POST = withShareCheck("POST");
+export const PUT = withShareCheck("PUT");
+export const PATCH = withShareCheck("PATCH");
+export const DELETE = withShareCheck("DELETE");
+export const { OPTIONS, runtime } = passthrough;
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  STAGING_TTL_MS,
+  UPLOAD_ID_PATTERN,
+  getFileKey,
+  getStagingKey,
+  getUploadStorage,
+  sanitizeFilename,
+} from "@/lib/upload-storage";
+import {
+  UPLOAD_CHUNK_SIZE,
+  type CompleteUploadRequest,
+  type CreateUploadRequest,
+} from "@/lib/uploads";
+
+export const runtime = "nodejs";
+
+type Params = { params: Promise<{ uploadId: string }> };
+
+const error = (message: string, status: number) =>
+  NextResponse.json({ error: message }, { status });
+
+async function getUpload(uploadId: string) {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) return undefined;
+  const meta = await getUploadStorage().get(
+    getStagingKey(uploadId, "meta.json"),
+  );
+  if (!meta) return undefined;
+  const upload = JSON.parse(
+    new TextDecoder().decode(meta.body),
+  ) as CreateUploadRequest & { createdAt?: number };
+  // Expired uploads may already be partly deleted, so they can't complete
+  if (upload.createdAt && Date.now() - upload.createdAt > STAGING_TTL_MS) {
+    return undefined;
+  }
+  return { ...upload, chunks: Math.ceil(upload.size / UPLOAD_CHUNK_SIZE) };
+}
+
+// Reads a request body of at most `maxBytes`, returning undefined for larger
+// bodies without buffering them in full
+async function readBody(
+  req: NextRequest,
+  maxBytes: number,
+): Promise<Uint8Array | undefined> {
+  if (Number(req.headers.get("content-length")) > maxBytes) return undefined;
+  if (!req.body) return new Uint8Array();
+
+  const reader = req.body.getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return undefined;
+    }
+    parts.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const part of parts) {
+    body.set(part, offset);
+    offset += part.byteLength;
+  }
+  return body;
+}
+
+// Stores chunk `?index=n` of an upload
+export async function PUT(req: NextRequest, { params }: Params) {
+  const { uploadId } = await params;
+  const upload = await getUpload(uploadId);
+  if (!upload) return error("Upload not found", 404);
+
+  const index = Number(req.nextUrl.searchParams.get("index"));
+  if (!Number.isInteger(index) || index < 0 || index >= upload.chunks) {
+    return error("Invalid chunk index", 400);
+  }
+  const chunk = await readBody(req, UPLOAD_CHUNK_SIZE);
+  if (!chunk) return error("Chunk too large", 413);
+
+  await getUploadStorage().put(getStagingKey(uploadId, String(index)), chunk);
+  return new NextResponse(null, { status: 204 });
+}
+
+// Assembles the uploaded chunks and returns the file's URL
+export async function POST(req: NextRequest, { params }: Params) {
+  const { uploadId } = await params;
+  const upload = await getUpload(uploadId);
+  if (!upload) return error("Upload not found", 404);
+
+  const body = (await req.json().catch(() => ({}))) as
+    | Partial<CompleteUploadRequest>
+    | undefined;
+  if (body?.chunks !== upload.chunks) {
+    return error(`Expected ${upload.chunks} chunks`, 400);
+  }
+
+  const storage = getUploadStorage();
+  const chunks = await Promise.all(
+    Array.from({ length: upload.chunks }, (_, index) =>
+      storage.get(getStagingKey(uploadId, String(index))),
+    ),
+  );
+  if (chunks.some((chunk) => !chunk)) {
+    return error("Upload is missing chunks", 400);
+  }
+
+  const file = new Uint8Array(upload.size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset + chunk!.body.byteLength > upload.size) break;
+    file.set(chunk!.body, offset);
+    offset += chunk!.body.byteLength;
+  }
+  if (offset !== upload.size) {
+    return error("Uploaded size doesn't match the declared size", 400);
+  }
+
+  const key = getFileKey(uploadId, sanitizeFilename(upload.filename));
+  await storage.put(key, file, upload.mimeType);
+  await Promise.all(
+    ["meta.json", ...chunks.map((_, index) => String(index))].map((name) =>
+      storage.delete(getStagingKey(uploadId, name)),
+    ),
+  );
+
+  // The URL is fetched by the LangGraph server or model provider, so it has
+  // to be absolute and reachable from there
+  const baseUrl = process.env.UPLOAD_PUBLIC_URL ?? req.nextUrl.origin;
+  const url =
+    storage.getPublicUrl?.(key) ??
+    `${baseUrl.replace(/\/$/, "")}/api/uploads/${key}`;
+  return NextResponse.json({ url });
+}
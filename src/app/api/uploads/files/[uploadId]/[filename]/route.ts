@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  UPLOAD_ID_PATTERN,
+  getFileKey,
+  getUploadStorage,
+  sanitizeFilename,
+} from "@/lib/upload-storage";
+
+export const runtime = "nodejs";
+
+// Serves completed uploads. These are public (like shared threads) since
+// they're fetched by the model provider, and the upload ID is unguessable.
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ uploadId: string; filename: string }> },
+) {
+  const { uploadId, filename } = await params;
+  // Stored file names are always sanitized, so anything else, e.g. an encoded
+  // `../`, is an attempt to read other keys such as staged chunks
+  if (
+    !UPLOAD_ID_PATTERN.test(uploadId) ||
+    sanitizeFilename(filename) !== filename
+  ) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const file = await getUploadStorage().get(getFileKey(uploadId, filename));
+  if (!file) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+  return new NextResponse(Buffer.from(file.body), {
+    headers: {
+      "Content-Type": file.contentType ?? "application/octet-stream",
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
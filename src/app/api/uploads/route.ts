@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { getAttachmentKind } from "@/lib/multimodal-utils";
+import {
+  STAGING_PREFIX,
+  STAGING_TTL_MS,
+  getStagingKey,
+  getUploadStorage,
+} from "@/lib/upload-storage";
+import { MAX_UPLOAD_SIZE, UPLOAD_CHUNK_SIZE } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+
+const createUploadSchema = z.object({
+  filename: z.string().min(1),
+  // Only attachment types are accepted, so uploads can't be used to serve
+  // arbitrary content (e.g. HTML) from this origin
+  mimeType: z.string().refine((type) => getAttachmentKind(type) !== undefined, {
+    message: "Unsupported file type",
+  }),
+  size: z.number().int().positive(),
+});
+
+// Starts a chunked upload. Chunks are then sent to `PUT /api/uploads/{uploadId}`.
+export async function POST(req: NextRequest) {
+  const result = createUploadSchema.safeParse(
+    await req.json().catch(() => undefined),
+  );
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error.issues[0].message },
+      { status: 400 },
+    );
+  }
+  if (result.data.size > MAX_UPLOAD_SIZE) {
+    return NextResponse.json(
+      { error: `Files must be under ${MAX_UPLOAD_SIZE / 1024 / 1024}MB` },
+      { status: 413 },
+    );
+  }
+
+  const storage = getUploadStorage();
+  // Clean up abandoned uploads as new ones start
+  await storage
+    .deleteExpired?.(STAGING_PREFIX, STAGING_TTL_MS)
+    .catch((e) => console.error("Failed to delete expired uploads:", e));
+
+  const uploadId = uuidv4();
+  await storage.put(
+    getStagingKey(uploadId, "meta.json"),
+    new TextEncoder().encode(
+      JSON.stringify({ ...result.data, createdAt: Date.now() }),
+    ),
+    "application/json",
+  );
+  return NextResponse.json({ uploadId, chunkSize: UPLOAD_CHUNK_SIZE });
+}
@@ -4,6 +4,8 @@ import { Thread } from "@/components/thread";
 import { StreamProvider } from "@/providers/Stream";
 import { ThreadProvider } from "@/providers/Thread";
 import { ArtifactProvider } from "@/components/thread/artifact";
+import { ImageGalleryProvider } from "@/components/thread/image-gallery";
+import { CodeArtifactsProvider } from "@/components/thread/code-artifact";
 import { Toaster } from "@/components/ui/sonner";
 import React from "react";
 import { useSession } from "next-auth/react";
@@ -37,7 +39,11 @@ export default function DemoPage(): React.ReactNode {
       <ThreadProvider>
         <StreamProvider>
           <ArtifactProvider>
-            <Thread />
+            <ImageGalleryProvider>
+              <CodeArtifactsProvider>
+                <Thread />
+              </CodeArtifactsProvider>
+            </ImageGalleryProvider>
           </ArtifactProvider>
         </StreamProvider>
       </ThreadProvider>
@@ -0,0 +1,23 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { ReadOnlyStreamProvider } from "@/providers/Stream";
+import { ArtifactProvider } from "@/components/thread/artifact";
+import { SharedThread } from "@/components/thread/shared-thread";
+import { Toaster } from "@/components/ui/sonner";
+import React from "react";
+
+export default function SharedThreadPage(): React.ReactNode {
+  const { threadId } = useParams<{ threadId: string }>();
+
+  return (
+    <React.Suspense fallback={<div>Loading (layout)...</div>}>
+      <Toaster />
+      <ReadOnlyStreamProvider threadId={threadId}>
+        <ArtifactProvider>
+          <SharedThread threadId={threadId} />
+        </ArtifactProvider>
+      </ReadOnlyStreamProvider>
+    </React.Suspense>
+  );
+}
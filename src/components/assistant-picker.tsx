@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Assistant } from "@langchain/langgraph-sdk";
+import { Bot, ChevronDown, LoaderCircle } from "lucide-react";
+import { useQueryState } from "nuqs";
+import { useStreamContext } from "@/providers/Stream";
+import { getAssistantName, isAssistantSelected } from "@/lib/assistants";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import { Button } from "./ui/button";
+
+/**
+ * Switches the assistant new threads are created with. Threads stay bound to
+ * the assistant they were created with, so switching starts a new thread.
+ */
+export function AssistantPicker() {
+  const { client } = useStreamContext();
+  const [assistantId, setAssistantId] = useQueryState("assistantId");
+  const [, setThreadId] = useQueryState("threadId");
+  const [assistants, setAssistants] = useState<Assistant[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    client.assistants
+      .search({ limit: 100, sortBy: "name", sortOrder: "asc" })
+      .then((result) => {
+        if (!cancelled) setAssistants(result);
+      })
+      .catch((error) => console.error("Failed to fetch assistants:", error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  const currentId = assistantId ?? process.env.NEXT_PUBLIC_ASSISTANT_ID ?? "";
+  const selected = assistants.find((a) => isAssistantSelected(a, currentId));
+
+  const handleSelect = (id: string) => {
+    if (selected?.assistant_id === id) return;
+    setAssistantId(id);
+    setThreadId(null);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="max-w-56 gap-2"
+        >
+          <Bot className="size-4 shrink-0" />
+          <span className="truncate">
+            {selected ? getAssistantName(selected) : currentId}
+          </span>
+          <ChevronDown className="text-muted-foreground size-4 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        align="start"
+        className="max-h-96 w-80 overflow-y-auto"
+      >
+        <DropdownMenuLabel>Assistant</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {loading && assistants.length === 0 ? (
+          <div className="text-muted-foreground flex items-center gap-2 px-2 py-1.5 text-sm">
+            <LoaderCircle className="size-4 animate-spin" />
+            Loading assistants...
+          </div>
+        ) : assistants.length === 0 ? (
+          <p className="text-muted-foreground px-2 py-1.5 text-sm">
+            No assistants found
+          </p>
+        ) : (
+          <DropdownMenuRadioGroup
+            value={selected?.assistant_id ?? ""}
+            onValueChange={handleSelect}
+          >
+            {assistants.map((assistant) => (
+              <DropdownMenuRadioItem
+                key={assistant.assistant_id}
+                value={assistant.assistant_id}
+                className="items-start"
+              >
+                <div className="flex min-w-0 flex-col gap-0.5">
+                  <div className="flex items-center gap-2">
+                    <span className="truncate font-medium">
+                      {getAssistantName(assistant)}
+                    </span>
+                    <span className="bg-muted text-muted-foreground shrink-0 rounded px-1.5 py-0.5 font-mono text-xs">
+                      {assistant.graph_id}
+                    </span>
+                  </div>
+                  {assistant.description && (
+                    <span className="text-muted-foreground line-clamp-2 text-xs">
+                      {assistant.description}
+                    </span>
+                  )}
+                </div>
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -12,15 +12,19 @@ import {
   TooltipTrigger,
 } from "./ui/tooltip";
 import { ThemeToggle } from "./theme-toggle";
+import { AssistantPicker } from "./assistant-picker";
+import { RunSettingsSheet } from "./thread/run-settings-sheet";
 
 interface ChatHeaderProps {
   onToggleSidebar?: () => void;
   showSidebarToggle?: boolean;
+  title?: string;
 }
 
 export function ChatHeader({
   onToggleSidebar,
   showSidebarToggle = false,
+  title,
 }: ChatHeaderProps) {
   const { data: session } = useSession();
 
@@ -45,7 +49,7 @@ export function ChatHeader({
 
   return (
     <header className="bg-card flex items-center justify-between border-b px-4 py-3 shadow-sm">
-      <div className="flex items-center gap-3">
+      <div className="flex min-w-0 items-center gap-3">
         {showSidebarToggle && (
           <Button
             variant="ghost"
@@ -57,9 +61,19 @@ export function ChatHeader({
           </Button>
         )}
         <FacetAITextLogoSVG className="text-primary h-8" />
+        <AssistantPicker />
+        {title && (
+          <h1
+            className="text-muted-foreground hidden max-w-md truncate border-l pl-3 text-sm font-medium md:block"
+            title={title}
+          >
+            {title}
+          </h1>
+        )}
       </div>
 
       <div className="flex items-center gap-3">
+        <RunSettingsSheet />
         <ThemeToggle />
         {session?.user && (
           <div className="flex items-center gap-2">
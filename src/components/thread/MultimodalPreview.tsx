@@ -1,9 +1,22 @@
 import React from "react";
-import { File, X as XIcon } from "lucide-react";
+import {
+  File,
+  FileAudio,
+  FileSpreadsheet,
+  FileText,
+  X as XIcon,
+} from "lucide-react";
 import type { Base64ContentBlock } from "@langchain/core/messages";
 import { cn } from "@/lib/utils";
 import Image from "next/image";
-import type { ExtendedContentBlock } from "@/lib/multimodal-utils";
+import {
+  formatDuration,
+  formatFileSize,
+  getMediaContentBlockUrl,
+  isFileContentBlock,
+  type ExtendedContentBlock,
+} from "@/lib/multimodal-utils";
+import { useImageGallery } from "./image-gallery";
 
 export interface MultimodalPreviewProps {
   block: ExtendedContentBlock;
@@ -13,6 +26,87 @@ export interface MultimodalPreviewProps {
   size?: "sm" | "md" | "lg";
 }
 
+const FILE_TYPE_LABELS: Record<string, string> = {
+  "application/pdf": "PDF",
+  "text/plain": "Text",
+  "text/markdown": "Markdown",
+  "text/csv": "CSV",
+};
+
+function getFileIcon(block: ExtendedContentBlock) {
+  if (block.type === "audio") return FileAudio;
+  if (block.mime_type === "text/csv") return FileSpreadsheet;
+  return FileText;
+}
+
+function getFileDetails(block: ExtendedContentBlock): string {
+  const { pages, duration, size } = block.metadata ?? {};
+  return [
+    block.type === "audio" ? "Audio" : FILE_TYPE_LABELS[block.mime_type ?? ""],
+    pages !== undefined && `${pages} ${pages === 1 ? "page" : "pages"}`,
+    duration !== undefined && formatDuration(duration),
+    size !== undefined && formatFileSize(size),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+const FilePreview: React.FC<MultimodalPreviewProps> = ({
+  block,
+  removable = false,
+  onRemove,
+  className,
+  size = "md",
+}) => {
+  const Icon = getFileIcon(block);
+  const name = block.metadata?.name || "uploaded file";
+  const audioUrl =
+    block.type === "audio" ? getMediaContentBlockUrl(block) : undefined;
+
+  return (
+    <div
+      className={cn(
+        "bg-background flex max-w-64 flex-col gap-2 rounded-md border px-3 py-2",
+        className,
+      )}
+    >
+      <div className="flex items-center gap-2">
+        <Icon
+          className={cn(
+            "text-muted-foreground shrink-0",
+            size === "sm" ? "size-5" : size === "lg" ? "size-10" : "size-8",
+          )}
+        />
+        <div className="flex min-w-0 flex-col">
+          <span className="truncate text-sm font-medium">{name}</span>
+          <span className="text-muted-foreground truncate text-xs">
+            {getFileDetails(block)}
+          </span>
+        </div>
+        {removable && (
+          <button
+            type="button"
+            className="ml-auto shrink-0 rounded-full bg-gray-500 text-white hover:bg-gray-700"
+            onClick={onRemove}
+            aria-label={`Remove ${name}`}
+          >
+            <XIcon className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      {/* Sent audio can be played back; the composer keeps the chip compact */}
+      {audioUrl && !removable && (
+        <audio
+          controls
+          preload="metadata"
+          src={audioUrl}
+          className="h-8 w-56"
+        />
+      )}
+    </div>
+  );
+};
+
 export const MultimodalPreview: React.FC<MultimodalPreviewProps> = ({
   block,
   removable = false,
@@ -20,6 +114,8 @@ export const MultimodalPreview: React.FC<MultimodalPreviewProps> = ({
   className,
   size = "md",
 }) => {
+  const gallery = useImageGallery();
+
   // Image block - supporting both base64 and URL sources
   if (
     block.type === "image" &&
@@ -28,9 +124,7 @@ export const MultimodalPreview: React.FC<MultimodalPreviewProps> = ({
     block.mime_type.startsWith("image/")
   ) {
     // Get the image URL based on source type
-    const url = block.source_type === "base64" 
-      ? `data:${block.mime_type};base64,${block.data}`
-      : block.data; // For URL source type, data contains the URL
+    const url = getMediaContentBlockUrl(block);
 
     let imgClass: string = "rounded-md object-cover h-16 w-16 text-lg";
     if (size === "sm") imgClass = "rounded-md object-cover h-10 w-10 text-base";
@@ -42,13 +136,15 @@ export const MultimodalPreview: React.FC<MultimodalPreviewProps> = ({
       block.metadata?.size && typeof block.metadata.size === "number"
         ? `(${(block.metadata.size / 1024).toFixed(1)}KB)`
         : "";
+    const { size: processedSize, originalSize } = block.metadata ?? {};
 
     return (
       <div className={cn("relative inline-block", className)}>
         <Image
           src={url}
           alt={`${imageName} ${imageSize}`}
-          className={imgClass}
+          className={cn(imgClass, !removable && gallery && "cursor-zoom-in")}
+          onClick={removable ? undefined : () => gallery?.openImage(url)}
           width={size === "sm" ? 16 : size === "md" ? 32 : 48}
           height={size === "sm" ? 16 : size === "md" ? 32 : 48}
         />
@@ -62,11 +158,36 @@ export const MultimodalPreview: React.FC<MultimodalPreviewProps> = ({
             <XIcon className="h-4 w-4" />
           </button>
         )}
+        {/* Show how much the image shrank while it's still in the composer */}
+        {removable &&
+          processedSize !== undefined &&
+          originalSize !== undefined &&
+          processedSize !== originalSize && (
+            <span
+              className="absolute inset-x-0 bottom-0 truncate rounded-b-md bg-black/60 px-0.5 text-center text-[9px] leading-tight text-white"
+              title={`Original ${formatFileSize(originalSize)}, sending ${formatFileSize(processedSize)}`}
+            >
+              {formatFileSize(originalSize)}→{formatFileSize(processedSize)}
+            </span>
+          )}
       </div>
     );
   }
 
-  // Fallback for non-image types (should not occur with new implementation)
+  // PDF, text and audio attachments
+  if (isFileContentBlock(block)) {
+    return (
+      <FilePreview
+        block={block}
+        removable={removable}
+        onRemove={onRemove}
+        className={className}
+        size={size}
+      />
+    );
+  }
+
+  // Fallback for unsupported types
   return (
     <div
       className={cn(
@@ -75,9 +196,7 @@ export const MultimodalPreview: React.FC<MultimodalPreviewProps> = ({
       )}
     >
       <File className="h-5 w-5 flex-shrink-0" />
-      <span className="truncate text-xs">
-        Image type only - unsupported content
-      </span>
+      <span className="truncate text-xs">Unsupported attachment</span>
       {removable && (
         <button
           type="button"
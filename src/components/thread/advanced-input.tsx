@@ -0,0 +1,41 @@
+import type { SchemaField } from "@/lib/json-schema";
+import { Button } from "@/components/ui/button";
+import { SchemaForm, type SchemaFormValues } from "./schema-form";
+
+/**
+ * Composer section for graph input keys other than `messages`, sent along
+ * with the next message.
+ */
+export function AdvancedInput({
+  fields,
+  values,
+  onChange,
+}: {
+  fields: SchemaField[];
+  values: SchemaFormValues;
+  onChange: (values: SchemaFormValues) => void;
+}) {
+  return (
+    <div className="max-h-[40vh] overflow-y-auto border-b p-3.5">
+      <div className="mb-3 flex items-center justify-between">
+        <span className="text-sm font-medium">Advanced input</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={Object.keys(values).length === 0}
+          onClick={() => onChange({})}
+        >
+          Clear
+        </Button>
+      </div>
+      <SchemaForm
+        fields={fields}
+        values={values}
+        onChange={onChange}
+        idPrefix="advanced-input"
+        className="gap-4"
+      />
+    </div>
+  );
+}
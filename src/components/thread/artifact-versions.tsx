@@ -0,0 +1,213 @@
+import { useState } from "react";
+import {
+  CheckIcon,
+  ChevronLeft,
+  ChevronRight,
+  GitCompare,
+  History,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  getRestoredArtifact,
+  getRestoredArtifactContext,
+  type ArtifactVersion,
+} from "@/lib/artifact-versions";
+import { getSideBySideDiff, type DiffLine } from "@/lib/text-diff";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { ArtifactToolbar, useArtifactContext } from "./artifact";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+function DiffCell({
+  line,
+  side,
+}: {
+  line?: DiffLine;
+  side: "before" | "after";
+}) {
+  return (
+    <>
+      <td className="text-muted-foreground w-10 border-r px-2 text-right align-top select-none">
+        {line?.lineNumber}
+      </td>
+      <td
+        className={cn(
+          "px-2 align-top break-all whitespace-pre-wrap",
+          line?.changed &&
+            (side === "before"
+              ? "bg-red-50 text-red-900 dark:bg-red-950 dark:text-red-200"
+              : "bg-green-50 text-green-900 dark:bg-green-950 dark:text-green-200"),
+          !line && "bg-muted/50",
+        )}
+      >
+        {line?.text}
+      </td>
+    </>
+  );
+}
+
+function VersionDiff({
+  versions,
+  index,
+  baseIndex,
+  onBaseIndexChange,
+}: {
+  versions: ArtifactVersion[];
+  index: number;
+  baseIndex: number;
+  onBaseIndexChange: (index: number) => void;
+}) {
+  const rows = getSideBySideDiff(
+    versions[baseIndex].text,
+    versions[index].text,
+  );
+
+  return (
+    <div className="flex flex-col">
+      <div className="bg-background sticky top-0 flex items-center gap-2 border-b px-4 py-2 text-sm">
+        <label htmlFor="artifact-diff-base">Compare</label>
+        <select
+          id="artifact-diff-base"
+          className="rounded-md border px-1 py-0.5"
+          value={baseIndex}
+          onChange={(e) => onBaseIndexChange(Number(e.target.value))}
+        >
+          {versions.map((version, i) => (
+            <option
+              key={version.id}
+              value={i}
+            >
+              v{i + 1}
+            </option>
+          ))}
+        </select>
+        <span>with v{index + 1}</span>
+      </div>
+      <table className="w-full table-fixed font-mono text-xs">
+        <colgroup>
+          <col className="w-10" />
+          <col />
+          <col className="w-10" />
+          <col />
+        </colgroup>
+        <tbody>
+          {rows.map((row, i) => (
+            <tr key={i}>
+              <DiffCell
+                line={row.before}
+                side="before"
+              />
+              <DiffCell
+                line={row.after}
+                side="after"
+              />
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * Version switcher, diff and restore for an artifact, shown next to its title
+ * while the artifact is open. Restoring a version sends it back to the agent
+ * as artifact context with the next message.
+ */
+export function ArtifactVersionControls({
+  slotId,
+  artifactId,
+  versions,
+  index,
+  onSelect,
+}: {
+  /** The `id` returned by `useArtifact` for the artifact's slot */
+  slotId: string;
+  /** Identifies the artifact to the agent */
+  artifactId: string;
+  versions: ArtifactVersion[];
+  index: number;
+  onSelect: (index: number) => void;
+}) {
+  const [context, setContext] = useArtifactContext();
+  const [comparing, setComparing] = useState(false);
+  const [baseIndex, setBaseIndex] = useState<number>();
+  if (versions.length < 2) return null;
+
+  const latestIndex = versions.length - 1;
+  const restored = getRestoredArtifact(context);
+  const isRestored =
+    restored?.artifact_id === artifactId &&
+    restored.version_id === versions[index].id;
+  // Compare with the previous version unless another was chosen
+  const diffBaseIndex =
+    baseIndex !== undefined && baseIndex < versions.length
+      ? baseIndex
+      : Math.max(index - 1, 0);
+
+  const onRestore = () => {
+    setContext((prev) => ({
+      ...prev,
+      ...getRestoredArtifactContext(artifactId, versions, index),
+    }));
+    toast.success(`Version ${index + 1} will be sent with your next message`);
+  };
+
+  return (
+    <ArtifactToolbar
+      id={slotId}
+      overlay={
+        comparing ? (
+          <VersionDiff
+            versions={versions}
+            index={index}
+            baseIndex={diffBaseIndex}
+            onBaseIndexChange={setBaseIndex}
+          />
+        ) : undefined
+      }
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-6 p-1"
+        disabled={index === 0}
+        onClick={() => onSelect(index - 1)}
+      >
+        <ChevronLeft />
+      </Button>
+      <span className="text-muted-foreground text-sm font-normal">
+        v{index + 1} / {versions.length}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="size-6 p-1"
+        disabled={index === latestIndex}
+        onClick={() => onSelect(index + 1)}
+      >
+        <ChevronRight />
+      </Button>
+      <TooltipIconButton
+        tooltip={comparing ? "Hide changes" : "Compare versions"}
+        variant={comparing ? "secondary" : "ghost"}
+        onClick={() => setComparing((prev) => !prev)}
+      >
+        <GitCompare />
+      </TooltipIconButton>
+      {index !== latestIndex && (
+        <TooltipIconButton
+          tooltip={
+            isRestored
+              ? "Will be sent with your next message"
+              : "Restore this version"
+          }
+          disabled={isRestored}
+          onClick={onRestore}
+        >
+          {isRestored ? <CheckIcon /> : <History />}
+        </TooltipIconButton>
+      )}
+    </ArtifactToolbar>
+  );
+}
@@ -11,6 +11,7 @@ import {
   useState,
 } from "react";
 import { createPortal } from "react-dom";
+import { cn } from "@/lib/utils";
 
 type Setter<T> = (value: T | ((value: T) => T)) => void;
 
@@ -19,6 +20,7 @@ const ArtifactSlotContext = createContext<{
   mounted: [string | null, Setter<string | null>];
 
   title: [HTMLElement | null, Setter<HTMLElement | null>];
+  toolbar: [HTMLElement | null, Setter<HTMLElement | null>];
   content: [HTMLElement | null, Setter<HTMLElement | null>];
 
   context: [Record<string, unknown>, Setter<Record<string, unknown>>];
@@ -58,6 +60,37 @@ const ArtifactSlot = (props: {
   );
 };
 
+/**
+ * Renders controls next to the title of the artifact with the given `id`,
+ * and `overlay` over its content, while that artifact is shown.
+ */
+export function ArtifactToolbar(props: {
+  id: string;
+  children?: ReactNode;
+  overlay?: ReactNode;
+}) {
+  const context = useContext(ArtifactSlotContext);
+
+  const [ctxMounted] = context.mounted;
+  const [toolbar] = context.toolbar;
+  const [content] = context.content;
+
+  if (ctxMounted !== props.id) return null;
+  return (
+    <>
+      {toolbar != null ? createPortal(<>{props.children}</>, toolbar) : null}
+      {content != null && props.overlay != null
+        ? createPortal(
+            <div className="bg-background absolute inset-0 z-10 overflow-auto">
+              {props.overlay}
+            </div>,
+            content,
+          )
+        : null}
+    </>
+  );
+}
+
 export function ArtifactContent(props: HTMLAttributes<HTMLDivElement>) {
   const context = useContext(ArtifactSlotContext);
 
@@ -79,25 +112,41 @@ export function ArtifactContent(props: HTMLAttributes<HTMLDivElement>) {
   );
 }
 
-export function ArtifactTitle(props: HTMLAttributes<HTMLDivElement>) {
+export function ArtifactTitle({
+  className,
+  ...props
+}: HTMLAttributes<HTMLDivElement>) {
   const context = useContext(ArtifactSlotContext);
 
   const ref = useRef<HTMLDivElement>(null);
+  const toolbarRef = useRef<HTMLDivElement>(null);
   const [, setStateRef] = context.title;
+  const [, setToolbarRef] = context.toolbar;
 
   useLayoutEffect(() => setStateRef?.(ref.current), [setStateRef]);
+  useLayoutEffect(() => setToolbarRef?.(toolbarRef.current), [setToolbarRef]);
 
   return (
     <div
       {...props}
-      ref={ref}
-    />
+      className={cn("flex items-center gap-3", className)}
+    >
+      <div
+        ref={ref}
+        className="min-w-0 truncate"
+      />
+      <div
+        ref={toolbarRef}
+        className="flex shrink-0 items-center gap-1 empty:hidden"
+      />
+    </div>
   );
 }
 
 export function ArtifactProvider(props: { children?: ReactNode }) {
   const content = useState<HTMLElement | null>(null);
   const title = useState<HTMLElement | null>(null);
+  const toolbar = useState<HTMLElement | null>(null);
 
   const open = useState<string | null>(null);
   const mounted = useState<string | null>(null);
@@ -105,7 +154,7 @@ export function ArtifactProvider(props: { children?: ReactNode }) {
 
   return (
     <ArtifactSlotContext.Provider
-      value={{ open, mounted, title, content, context }}
+      value={{ open, mounted, title, toolbar, content, context }}
     >
       {props.children}
     </ArtifactSlotContext.Provider>
@@ -154,10 +203,12 @@ export function useArtifact() {
 
   return [
     ArtifactContent,
-    { open, setOpen, context: ctxContext, setContext: ctxSetContext },
+    { id, open, setOpen, context: ctxContext, setContext: ctxSetContext },
   ] as [
     typeof ArtifactContent,
     {
+      /** Passed to `ArtifactToolbar` to add controls to this artifact */
+      id: string;
       open: typeof open;
       setOpen: typeof setOpen;
       context: typeof ctxContext;
@@ -0,0 +1,202 @@
+import { useMemo, useState } from "react";
+import type { Message } from "@langchain/langgraph-sdk";
+import { ChevronRight, GitBranch } from "lucide-react";
+import { motion } from "framer-motion";
+import { useStreamContext } from "@/providers/Stream";
+import {
+  countBranches,
+  getBranchForks,
+  type BranchFork,
+  type BranchSummary,
+} from "@/lib/branch-tree";
+import { cn } from "@/lib/utils";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { getContentString } from "./utils";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+const MESSAGE_LABELS: Partial<Record<Message["type"], string>> = {
+  human: "You",
+  ai: "Assistant",
+  tool: "Tool",
+};
+
+function MessagePreview({ message }: { message?: Message }) {
+  if (!message) {
+    return <span className="text-muted-foreground italic">No messages</span>;
+  }
+  const text = getContentString(message.content);
+  return (
+    <span className="line-clamp-2">
+      <span className="font-medium">
+        {MESSAGE_LABELS[message.type] ?? message.type}:
+      </span>{" "}
+      {text || <span className="text-muted-foreground italic">No text</span>}
+    </span>
+  );
+}
+
+function BranchItem({
+  branch,
+  label,
+  onSelect,
+}: {
+  branch: BranchSummary;
+  label: string;
+  onSelect: (path: string) => void;
+}) {
+  const [expanded, setExpanded] = useState(branch.active);
+  const hasForks = branch.forks.length > 0;
+
+  return (
+    <li>
+      <div className="flex items-start gap-1">
+        <button
+          type="button"
+          className={cn(
+            "mt-2 flex size-5 shrink-0 items-center justify-center rounded text-gray-500 hover:bg-gray-100",
+            !hasForks && "invisible",
+          )}
+          onClick={() => setExpanded((prev) => !prev)}
+          aria-label={expanded ? "Collapse" : "Expand"}
+          aria-expanded={expanded}
+        >
+          <motion.div
+            initial={false}
+            animate={{ rotate: expanded ? 90 : 0 }}
+            transition={{ duration: 0.2 }}
+          >
+            <ChevronRight className="size-4" />
+          </motion.div>
+        </button>
+        <button
+          type="button"
+          className={cn(
+            "hover:bg-muted flex min-w-0 flex-1 cursor-pointer flex-col items-start gap-1 rounded-md border px-3 py-2 text-left text-sm",
+            branch.active && "border-primary",
+          )}
+          onClick={() => onSelect(branch.path)}
+        >
+          <span className="flex w-full items-center gap-2 text-xs">
+            <GitBranch className="size-3.5" />
+            <span className="font-medium">{label}</span>
+            <span className="text-muted-foreground">
+              {branch.messageCount} messages
+            </span>
+            {branch.active && (
+              <span className="text-primary ml-auto">Viewing</span>
+            )}
+          </span>
+          <MessagePreview message={branch.firstMessage} />
+        </button>
+      </div>
+      {hasForks && expanded && (
+        <div className="mt-2 ml-6 border-l pl-3">
+          <ForkList
+            forks={branch.forks}
+            labelPrefix={`${label}.`}
+            onSelect={onSelect}
+          />
+        </div>
+      )}
+    </li>
+  );
+}
+
+function ForkList({
+  forks,
+  labelPrefix,
+  onSelect,
+}: {
+  forks: BranchFork[];
+  labelPrefix: string;
+  onSelect: (path: string) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-4">
+      {forks.map((fork, i) => (
+        <div
+          key={i}
+          className="flex flex-col gap-2"
+        >
+          <p className="text-muted-foreground text-xs">
+            Diverges after <MessagePreview message={fork.divergesAfter} />
+          </p>
+          <ul className="flex flex-col gap-2">
+            {fork.branches.map((branch, j) => (
+              <BranchItem
+                key={branch.path}
+                branch={branch}
+                label={`${labelPrefix}${j + 1}`}
+                onSelect={onSelect}
+              />
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Tree of the branches in a thread, created by editing or regenerating
+ * messages. Selecting a branch switches the thread to it.
+ */
+export function BranchTree() {
+  const stream = useStreamContext();
+  const [open, setOpen] = useState(false);
+
+  const forks = useMemo(
+    () =>
+      getBranchForks(
+        stream.experimental_branchTree,
+        new Set(stream.history.map((state) => state.checkpoint.checkpoint_id)),
+      ),
+    [stream.experimental_branchTree, stream.history],
+  );
+  if (forks.length === 0) return null;
+  const branchCount = countBranches(forks);
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip={`Branches (${branchCount})`}
+        variant="ghost"
+        onClick={() => setOpen(true)}
+      >
+        <GitBranch className="size-5" />
+      </TooltipIconButton>
+      <Sheet
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <SheetContent className="sm:max-w-lg">
+          <SheetHeader>
+            <SheetTitle>Branches</SheetTitle>
+            <SheetDescription>
+              Branches created by editing or regenerating messages. Select one
+              to view it.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="min-h-0 flex-1 overflow-y-auto px-4 pb-4">
+            <ForkList
+              forks={forks}
+              labelPrefix="Branch "
+              onSelect={(path) => {
+                stream.setBranch(path);
+                setOpen(false);
+              }}
+            />
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
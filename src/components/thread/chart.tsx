@@ -0,0 +1,157 @@
+import { useState } from "react";
+import {
+  Area,
+  AreaChart,
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { ChartSpec } from "@/lib/charts";
+import { cn } from "@/lib/utils";
+
+const CHART_COLORS = ["#8b5cf6", "#0ea5e9", "#f59e0b", "#10b981", "#ef4444"];
+
+const getColor = (index: number) => CHART_COLORS[index % CHART_COLORS.length];
+
+// ResponsiveContainer sizes its direct child, so this returns the chart
+// element itself rather than a component wrapping it
+function renderCartesianChart(
+  spec: ChartSpec,
+  hidden: string[],
+  onToggleSeries: (key: string) => void,
+) {
+  const axes = [
+    <CartesianGrid
+      key="grid"
+      strokeDasharray="3 3"
+    />,
+    <XAxis
+      key="x"
+      dataKey={spec.x}
+    />,
+    <YAxis key="y" />,
+    <Tooltip key="tooltip" />,
+    spec.y.length > 1 && (
+      <Legend
+        key="legend"
+        wrapperStyle={{ cursor: "pointer" }}
+        onClick={(entry) => onToggleSeries(String(entry.dataKey))}
+      />
+    ),
+  ];
+
+  switch (spec.type) {
+    case "bar":
+      return (
+        <BarChart data={spec.data}>
+          {axes}
+          {spec.y.map((key, i) => (
+            <Bar
+              key={key}
+              dataKey={key}
+              fill={getColor(i)}
+              hide={hidden.includes(key)}
+            />
+          ))}
+        </BarChart>
+      );
+    case "area":
+      return (
+        <AreaChart data={spec.data}>
+          {axes}
+          {spec.y.map((key, i) => (
+            <Area
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={getColor(i)}
+              fill={getColor(i)}
+              fillOpacity={0.2}
+              hide={hidden.includes(key)}
+            />
+          ))}
+        </AreaChart>
+      );
+    default:
+      return (
+        <LineChart data={spec.data}>
+          {axes}
+          {spec.y.map((key, i) => (
+            <Line
+              key={key}
+              type="monotone"
+              dataKey={key}
+              stroke={getColor(i)}
+              dot={spec.data.length <= 30}
+              hide={hidden.includes(key)}
+            />
+          ))}
+        </LineChart>
+      );
+  }
+}
+
+/**
+ * Renders a chart spec with recharts. Hovering shows values, and clicking a
+ * legend entry hides or shows its series.
+ */
+export function Chart({
+  spec,
+  height = 260,
+  className,
+}: {
+  spec: ChartSpec;
+  height?: number;
+  className?: string;
+}) {
+  const [hidden, setHidden] = useState<string[]>([]);
+  const toggleSeries = (key: string) =>
+    setHidden((prev) =>
+      prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key],
+    );
+
+  return (
+    <div className={cn("w-full", className)}>
+      {spec.title && (
+        <p className="mb-2 text-center text-sm font-medium">{spec.title}</p>
+      )}
+      <ResponsiveContainer
+        width="100%"
+        height={height}
+      >
+        {spec.type === "pie" ? (
+          <PieChart>
+            <Tooltip />
+            <Legend />
+            <Pie
+              data={spec.data}
+              dataKey={spec.y[0]}
+              nameKey={spec.x}
+              outerRadius="80%"
+              label
+            >
+              {spec.data.map((_, i) => (
+                <Cell
+                  key={i}
+                  fill={getColor(i)}
+                />
+              ))}
+            </Pie>
+          </PieChart>
+        ) : (
+          renderCartesianChart(spec, hidden, toggleSeries)
+        )}
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useMemo, useState } from "react";
+import {
+  ArrowLeft,
+  GitCommitVertical,
+  GitFork,
+  LoaderCircle,
+  RefreshCw,
+} from "lucide-react";
+import { useQueryState } from "nuqs";
+import type { ThreadState } from "@langchain/langgraph-sdk";
+import { useStreamContext } from "@/providers/Stream";
+import { useThreadCheckpoints } from "@/hooks/use-thread-checkpoints";
+import {
+  canForkFromCheckpoint,
+  getCheckpointId,
+  getCheckpointNodes,
+} from "@/lib/checkpoints";
+import { cn } from "@/lib/utils";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { StateView } from "./agent-inbox/components/state-view";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+function formatTime(createdAt: string | null | undefined) {
+  if (!createdAt) return undefined;
+  return new Date(createdAt).toLocaleString(undefined, {
+    dateStyle: "short",
+    timeStyle: "medium",
+  });
+}
+
+function CheckpointNodes({ state }: { state: ThreadState }) {
+  return (
+    <span className="flex flex-wrap gap-1">
+      {getCheckpointNodes(state).map((node) => (
+        <span
+          key={node}
+          className="bg-muted rounded px-1.5 py-0.5 font-mono text-xs"
+        >
+          {node}
+        </span>
+      ))}
+    </span>
+  );
+}
+
+function CheckpointItem({
+  state,
+  onCurrentBranch,
+  isHead,
+  onSelect,
+}: {
+  state: ThreadState;
+  onCurrentBranch: boolean;
+  isHead: boolean;
+  onSelect: () => void;
+}) {
+  return (
+    <li className="relative pl-6">
+      {/* Timeline line and marker */}
+      <div className="bg-border absolute top-0 bottom-0 left-[7px] w-px" />
+      <div
+        className={cn(
+          "bg-background absolute top-3 left-0.5 size-3 rounded-full border-2",
+          onCurrentBranch ? "border-primary" : "border-muted-foreground/40",
+          isHead && "bg-primary",
+        )}
+      />
+      <button
+        type="button"
+        className="hover:bg-muted flex w-full cursor-pointer flex-col items-start gap-1 rounded-md px-2 py-2 text-left text-sm"
+        onClick={onSelect}
+      >
+        <CheckpointNodes state={state} />
+        <span className="text-muted-foreground flex flex-wrap gap-x-2 text-xs">
+          {state.metadata?.step != null && (
+            <span>Step {state.metadata.step}</span>
+          )}
+          {formatTime(state.created_at) && (
+            <span>{formatTime(state.created_at)}</span>
+          )}
+          {state.next.length > 0 && <span>Next: {state.next.join(", ")}</span>}
+          {isHead && <span className="text-primary">Current</span>}
+        </span>
+      </button>
+    </li>
+  );
+}
+
+function CheckpointDetails({
+  state,
+  onBack,
+  onFork,
+  forkDisabled,
+}: {
+  state: ThreadState;
+  onBack: () => void;
+  onFork: () => void;
+  forkDisabled: boolean;
+}) {
+  const canFork = canForkFromCheckpoint(state);
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onBack}
+        >
+          <ArrowLeft />
+          Back
+        </Button>
+        <CheckpointNodes state={state} />
+        <Button
+          size="sm"
+          className="ml-auto"
+          disabled={!canFork || forkDisabled}
+          title={
+            canFork
+              ? "Start a new run from this checkpoint"
+              : "Nothing is left to run from this checkpoint"
+          }
+          onClick={onFork}
+        >
+          <GitFork />
+          Fork from here
+        </Button>
+      </div>
+      <p className="text-muted-foreground font-mono text-xs break-all">
+        {getCheckpointId(state)}
+      </p>
+      <div className="min-h-0 flex-1 overflow-y-auto">
+        <StateView
+          values={state.values as Record<string, unknown>}
+          description={undefined}
+          view="state"
+          handleShowSidePanel={onBack}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Timeline of the thread's recent checkpoints, across branches. Checkpoints
+ * can be inspected, and forked to start a new run from that point.
+ */
+export function CheckpointTimeline() {
+  const [threadId] = useQueryState("threadId");
+  const stream = useStreamContext();
+  const [open, setOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string>();
+  const { checkpoints, loading, refresh, truncated } = useThreadCheckpoints(
+    threadId,
+    open,
+  );
+
+  const branchCheckpointIds = useMemo(
+    () => new Set(stream.history.map((state) => getCheckpointId(state))),
+    [stream.history],
+  );
+  const headId = stream.history.length
+    ? getCheckpointId(stream.history[stream.history.length - 1])
+    : undefined;
+  const selected = checkpoints.find(
+    (state) => getCheckpointId(state) === selectedId,
+  );
+
+  const handleFork = (state: ThreadState) => {
+    stream.submit(undefined, {
+      checkpoint: state.checkpoint,
+      streamMode: ["values"],
+    });
+    setSelectedId(undefined);
+    setOpen(false);
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        size="lg"
+        className="p-4"
+        tooltip="Checkpoints"
+        variant="ghost"
+        disabled={!threadId}
+        onClick={() => setOpen(true)}
+      >
+        <GitCommitVertical className="size-5" />
+      </TooltipIconButton>
+      <Sheet
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <SheetContent className="sm:max-w-lg">
+          <SheetHeader>
+            <div className="flex items-center gap-2">
+              <SheetTitle>Checkpoints</SheetTitle>
+              <TooltipIconButton
+                tooltip="Refresh"
+                className="size-7"
+                disabled={loading}
+                onClick={refresh}
+              >
+                {loading ? (
+                  <LoaderCircle className="animate-spin" />
+                ) : (
+                  <RefreshCw />
+                )}
+              </TooltipIconButton>
+            </div>
+            <SheetDescription>
+              The steps of this thread, newest first. Highlighted checkpoints
+              are on the branch you&apos;re viewing.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex min-h-0 flex-1 flex-col px-4 pb-4">
+            {selected ? (
+              <CheckpointDetails
+                state={selected}
+                onBack={() => setSelectedId(undefined)}
+                onFork={() => handleFork(selected)}
+                forkDisabled={stream.isLoading}
+              />
+            ) : checkpoints.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                {loading ? "Loading checkpoints..." : "No checkpoints yet."}
+              </p>
+            ) : (
+              <ul className="min-h-0 flex-1 overflow-y-auto">
+                {checkpoints.map((state) => {
+                  const id = getCheckpointId(state);
+                  return (
+                    <CheckpointItem
+                      key={id}
+                      state={state}
+                      onCurrentBranch={branchCheckpointIds.has(id)}
+                      isHead={id === headId}
+                      onSelect={() => setSelectedId(id)}
+                    />
+                  );
+                })}
+                {truncated && (
+                  <li className="text-muted-foreground px-2 py-3 text-xs">
+                    Only the {checkpoints.length} most recent checkpoints are
+                    shown.
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
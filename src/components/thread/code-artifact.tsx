@@ -0,0 +1,207 @@
+import {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { AppWindow, Code, Download, Eye } from "lucide-react";
+import { useStreamContext } from "@/providers/Stream";
+import {
+  getCodeArtifactDocument,
+  getCodeArtifactFileType,
+  getCodeArtifactVersions,
+  type CodeArtifactVersion,
+} from "@/lib/code-artifacts";
+import type { ArtifactVersion } from "@/lib/artifact-versions";
+import { downloadFile } from "@/lib/export-thread";
+import { Button } from "@/components/ui/button";
+import { useArtifact } from "./artifact";
+import { ArtifactVersionControls } from "./artifact-versions";
+import { SyntaxHighlighter } from "./syntax-highlighter";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+type CodeArtifact = Omit<CodeArtifactVersion, "messageId">;
+
+interface CodeArtifactsContextType {
+  openCodeArtifact: (artifact: CodeArtifact) => void;
+}
+
+const CodeArtifactsContext = createContext<CodeArtifactsContextType | null>(
+  null,
+);
+
+// Delay before the preview reloads with changed code, e.g. while streaming
+const PREVIEW_DELAY_MS = 500;
+
+function CodeArtifactView({ artifact }: { artifact: CodeArtifact }) {
+  const [view, setView] = useState<"preview" | "code">("preview");
+  const [previewCode, setPreviewCode] = useState(artifact.code);
+
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setPreviewCode(artifact.code),
+      PREVIEW_DELAY_MS,
+    );
+    return () => clearTimeout(timeout);
+  }, [artifact.code]);
+
+  const onDownload = () => {
+    const { extension, mimeType } = getCodeArtifactFileType(artifact.language);
+    const name = artifact.title
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+    downloadFile(artifact.code, `${name || "artifact"}.${extension}`, mimeType);
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col">
+      <div className="flex items-center gap-1 border-b px-4 py-2">
+        {(["preview", "code"] as const).map((option) => (
+          <Button
+            key={option}
+            variant={view === option ? "secondary" : "ghost"}
+            size="sm"
+            className="capitalize"
+            onClick={() => setView(option)}
+          >
+            {option === "preview" ? <Eye /> : <Code />}
+            {option}
+          </Button>
+        ))}
+        <TooltipIconButton
+          tooltip="Download"
+          className="ml-auto"
+          onClick={onDownload}
+        >
+          <Download />
+        </TooltipIconButton>
+      </div>
+      {view === "preview" ? (
+        <iframe
+          title={artifact.title}
+          // Without allow-same-origin, scripts can't reach the app
+          sandbox="allow-scripts allow-forms allow-modals allow-popups"
+          srcDoc={getCodeArtifactDocument(artifact.language, previewCode)}
+          className="min-h-0 flex-1 bg-white"
+        />
+      ) : (
+        <div className="min-h-0 flex-1 overflow-auto bg-black text-white">
+          <SyntaxHighlighter language={artifact.language}>
+            {artifact.code}
+          </SyntaxHighlighter>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Shows HTML, SVG and JSX code blocks from AI messages in the artifact panel.
+ * Later blocks for the same artifact are its versions, and the panel follows
+ * the latest version unless an earlier one is selected.
+ */
+export function CodeArtifactsProvider({ children }: { children: ReactNode }) {
+  const { messages } = useStreamContext();
+  const [Artifact, { id: slotId, setOpen }] = useArtifact();
+  const [selected, setSelected] = useState<{
+    artifact: CodeArtifact;
+    followLatest: boolean;
+  } | null>(null);
+
+  const allVersions = useMemo(
+    () => getCodeArtifactVersions(messages),
+    [messages],
+  );
+  const selectedKey = selected?.artifact.key;
+  const versions = useMemo(
+    () => allVersions.filter((v) => v.key === selectedKey),
+    [allVersions, selectedKey],
+  );
+  const index = selected
+    ? selected.followLatest
+      ? versions.length - 1
+      : versions.findIndex((v) => v.code === selected.artifact.code)
+    : -1;
+  // Blocks outside the thread's AI messages are shown on their own
+  const current = index === -1 ? selected?.artifact : versions[index];
+  const artifactVersions = useMemo(
+    () =>
+      versions.map(
+        (v, i): ArtifactVersion => ({
+          id: `${v.messageId ?? "message"}:${i}`,
+          messageId: v.messageId,
+          text: v.code,
+          value: { title: v.title, language: v.language, code: v.code },
+        }),
+      ),
+    [versions],
+  );
+
+  const value = useMemo(
+    () => ({
+      openCodeArtifact: (artifact: CodeArtifact) => {
+        const latest = allVersions.findLast((v) => v.key === artifact.key);
+        setSelected({
+          artifact,
+          followLatest: latest?.code === artifact.code,
+        });
+        setOpen(true);
+      },
+    }),
+    [allVersions, setOpen],
+  );
+
+  const selectVersion = (i: number) =>
+    setSelected({
+      artifact: versions[i],
+      followLatest: i === versions.length - 1,
+    });
+
+  return (
+    <CodeArtifactsContext.Provider value={value}>
+      {children}
+      {current && (
+        <Artifact title={current.title}>
+          <CodeArtifactView
+            key={current.key}
+            artifact={current}
+          />
+        </Artifact>
+      )}
+      {current && index !== -1 && (
+        <ArtifactVersionControls
+          slotId={slotId}
+          artifactId={current.key}
+          versions={artifactVersions}
+          index={index}
+          onSelect={selectVersion}
+        />
+      )}
+    </CodeArtifactsContext.Provider>
+  );
+}
+
+/**
+ * Opens a code block in the artifact panel. Hidden outside a
+ * `CodeArtifactsProvider`, e.g. in shared threads.
+ */
+export function OpenCodeArtifactButton({
+  artifact,
+}: {
+  artifact: CodeArtifact;
+}) {
+  const context = useContext(CodeArtifactsContext);
+  if (!context) return null;
+
+  return (
+    <TooltipIconButton
+      tooltip="Open as artifact"
+      onClick={() => context.openCodeArtifact(artifact)}
+    >
+      <AppWindow />
+    </TooltipIconButton>
+  );
+}
@@ -0,0 +1,87 @@
+import { Settings2 } from "lucide-react";
+import {
+  IMAGE_QUALITY_PRESETS,
+  IMAGE_QUALITY_PRESET_NAMES,
+  type ImageQualityPreset,
+} from "@/lib/image-processing";
+import {
+  QUEUE_STRATEGIES,
+  QUEUE_STRATEGY_LABELS,
+  type QueueStrategy,
+} from "@/lib/queued-messages";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+/**
+ * Composer settings: the preset attached images are resized and compressed
+ * with, and how messages sent while a run is in progress are handled.
+ */
+export function ComposerSettingsMenu({
+  imageQuality,
+  onImageQualityChange,
+  queueStrategy,
+  onQueueStrategyChange,
+}: {
+  imageQuality: ImageQualityPreset;
+  onImageQualityChange: (value: ImageQualityPreset) => void;
+  queueStrategy: QueueStrategy;
+  onQueueStrategyChange: (value: QueueStrategy) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex cursor-pointer items-center gap-2 text-sm text-gray-600">
+        <Settings2 className="size-5" />
+        Settings
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel>Image quality</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={imageQuality}
+          onValueChange={(v) => onImageQualityChange(v as ImageQualityPreset)}
+        >
+          {IMAGE_QUALITY_PRESET_NAMES.map((name) => {
+            const preset = IMAGE_QUALITY_PRESETS[name];
+            return (
+              <DropdownMenuRadioItem
+                key={name}
+                value={name}
+              >
+                {preset.label}
+                <span className="text-muted-foreground ml-auto pl-4 text-xs">
+                  {preset.maxDimension}px
+                </span>
+              </DropdownMenuRadioItem>
+            );
+          })}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Messages sent during a run</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={queueStrategy}
+          onValueChange={(v) => onQueueStrategyChange(v as QueueStrategy)}
+        >
+          {QUEUE_STRATEGIES.map((strategy) => (
+            <DropdownMenuRadioItem
+              key={strategy}
+              value={strategy}
+            >
+              <div className="flex flex-col">
+                <span>{QUEUE_STRATEGY_LABELS[strategy].label}</span>
+                <span className="text-muted-foreground text-xs">
+                  {QUEUE_STRATEGY_LABELS[strategy].description}
+                </span>
+              </div>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,65 @@
+import { useState } from "react";
+import { Download, FileCode, FileJson, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { useQueryState } from "nuqs";
+import { useStreamContext } from "@/providers/Stream";
+import { exportThread, type ExportFormat } from "@/lib/export-thread";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+export function ExportThreadMenu({ title }: { title?: string }) {
+  const stream = useStreamContext();
+  const [threadId] = useQueryState("threadId");
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await exportThread(stream.messages, format, { title, threadId });
+    } catch (error) {
+      console.error("Failed to export conversation:", error);
+      toast.error("Failed to export conversation");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <TooltipIconButton
+          size="lg"
+          className="p-4"
+          tooltip="Export conversation"
+          variant="ghost"
+          disabled={exporting || stream.messages.length === 0}
+        >
+          <Download className="size-5" />
+        </TooltipIconButton>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => handleExport("markdown")}>
+          <FileText />
+          Markdown
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("json")}>
+          <FileJson />
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("html")}>
+          <FileCode />
+          HTML
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,10 +1,20 @@
 import { Button } from "@/components/ui/button";
 import { useThreads } from "@/providers/Thread";
-import { Thread } from "@langchain/langgraph-sdk";
-import { useEffect } from "react";
+import { Thread, ThreadStatus } from "@langchain/langgraph-sdk";
+import { ChangeEvent, useCallback, useEffect, useRef, useState } from "react";
 import { useSession } from "next-auth/react";
+import { toast } from "sonner";
+import { parseTranscript } from "@/lib/import-thread";
+import { TooltipIconButton } from "../tooltip-icon-button";
 
-import { getContentString } from "../utils";
+import {
+  getThreadPreview,
+  groupThreadsByDate,
+  isThreadArchived,
+  isThreadPinned,
+  parseThreadSearchQuery,
+  threadMatchesText,
+} from "./utils";
 import { useQueryState, parseAsBoolean } from "nuqs";
 import {
   Sheet,
@@ -13,8 +23,297 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Skeleton } from "@/components/ui/skeleton";
-import { PanelRightOpen, PanelRightClose } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Archive,
+  ArchiveRestore,
+  ListFilter,
+  LoaderCircle,
+  MoreHorizontal,
+  PanelRightOpen,
+  PanelRightClose,
+  Pencil,
+  Pin,
+  PinOff,
+  Search,
+  Trash2,
+  Upload,
+} from "lucide-react";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
+import { cn } from "@/lib/utils";
+
+const THREAD_STATUS_OPTIONS: { value: ThreadStatus | "all"; label: string }[] =
+  [
+    { value: "all", label: "All statuses" },
+    { value: "idle", label: "Idle" },
+    { value: "busy", label: "Busy" },
+    { value: "interrupted", label: "Interrupted" },
+    { value: "error", label: "Error" },
+  ];
+
+function ThreadSearch() {
+  const { filters, setFilters } = useThreads();
+  const [query, setQuery] = useState(filters.query);
+
+  // Debounce so typing doesn't trigger a search request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((prev) => (prev.query === query ? prev : { ...prev, query }));
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [query, setFilters]);
+
+  const statusLabel =
+    THREAD_STATUS_OPTIONS.find((o) => o.value === (filters.status ?? "all"))
+      ?.label ?? "All statuses";
+
+  return (
+    <div className="flex w-[280px] items-center gap-2 px-1">
+      <div className="relative flex-1">
+        <Search className="text-muted-foreground pointer-events-none absolute top-1/2 left-2 size-4 -translate-y-1/2" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search threads"
+          aria-label="Search threads"
+          className="pl-8"
+        />
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="icon"
+            className={cn(
+              (filters.status || filters.showArchived) &&
+                "border-primary text-primary",
+            )}
+            aria-label={`Filter by status: ${statusLabel}`}
+          >
+            <ListFilter className="size-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Status</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuRadioGroup
+            value={filters.status ?? "all"}
+            onValueChange={(value) =>
+              setFilters((prev) => ({
+                ...prev,
+                status: value === "all" ? undefined : (value as ThreadStatus),
+              }))
+            }
+          >
+            {THREAD_STATUS_OPTIONS.map((option) => (
+              <DropdownMenuRadioItem
+                key={option.value}
+                value={option.value}
+              >
+                {option.label}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuCheckboxItem
+            checked={!!filters.showArchived}
+            onCheckedChange={(checked) =>
+              setFilters((prev) => ({ ...prev, showArchived: checked }))
+            }
+          >
+            Show archived
+          </DropdownMenuCheckboxItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
+function ImportThreadButton() {
+  const { importThread } = useThreads();
+  const [, setThreadId] = useQueryState("threadId");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [importing, setImporting] = useState(false);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const messages = parseTranscript(await file.text());
+      const threadId = await importThread(messages);
+      setThreadId(threadId);
+      toast.success(`Imported ${messages.length} messages into a new thread`);
+    } catch (error) {
+      console.error("Failed to import transcript:", error);
+      toast.error("Failed to import transcript", {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        tooltip="Import JSON transcript"
+        variant="ghost"
+        className="size-8"
+        disabled={importing}
+        onClick={() => inputRef.current?.click()}
+      >
+        {importing ? <LoaderCircle className="animate-spin" /> : <Upload />}
+      </TooltipIconButton>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </>
+  );
+}
+
+function ThreadListItem({
+  thread,
+  isActive,
+  onSelect,
+}: {
+  thread: Thread;
+  isActive: boolean;
+  onSelect: () => void;
+}) {
+  const [, setThreadId] = useQueryState("threadId");
+  const { renameThread, setThreadPinned, setThreadArchived, deleteThread } =
+    useThreads();
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [title, setTitle] = useState("");
+
+  const preview = getThreadPreview(thread);
+  const pinned = isThreadPinned(thread);
+  const archived = isThreadArchived(thread);
+
+  const submitRename = () => {
+    setIsRenaming(false);
+    const trimmed = title.trim();
+    if (!trimmed || trimmed === preview) return;
+    renameThread(thread.thread_id, trimmed);
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete "${preview}"? This cannot be undone.`)) return;
+    if (isActive) setThreadId(null);
+    deleteThread(thread.thread_id);
+  };
+
+  if (isRenaming) {
+    return (
+      <div className="w-full px-1">
+        <Input
+          autoFocus
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              submitRename();
+            } else if (e.key === "Escape") {
+              setIsRenaming(false);
+            }
+          }}
+          aria-label="Thread title"
+          className="w-[280px]"
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="group/thread w-full px-1">
+      <div
+        className={cn(
+          "hover:bg-accent flex w-[280px] items-center rounded-md",
+          isActive && "bg-muted",
+        )}
+      >
+        <Button
+          variant="ghost"
+          className={cn(
+            "min-w-0 flex-1 items-start justify-start text-left font-normal hover:bg-transparent",
+            archived && "text-muted-foreground",
+          )}
+          onClick={(e) => {
+            e.preventDefault();
+            onSelect();
+          }}
+        >
+          {pinned && <Pin className="size-3.5 shrink-0" />}
+          {archived && <Archive className="size-3.5 shrink-0" />}
+          <p className="truncate text-ellipsis">{preview}</p>
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-8 shrink-0 opacity-0 group-hover/thread:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+              aria-label="Thread actions"
+            >
+              <MoreHorizontal className="size-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem
+              onSelect={() => {
+                setTitle(preview);
+                setIsRenaming(true);
+              }}
+            >
+              <Pencil />
+              Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => setThreadPinned(thread.thread_id, !pinned)}
+            >
+              {pinned ? <PinOff /> : <Pin />}
+              {pinned ? "Unpin" : "Pin"}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={() => setThreadArchived(thread.thread_id, !archived)}
+            >
+              {archived ? <ArchiveRestore /> : <Archive />}
+              {archived ? "Unarchive" : "Archive"}
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              variant="destructive"
+              onSelect={handleDelete}
+            >
+              <Trash2 />
+              Delete
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
 
 function ThreadList({
   threads,
@@ -25,56 +324,112 @@ function ThreadList({
   threads: Thread[];
   onThreadClick?: (threadId: string) => void;
   hasMoreThreads?: boolean;
-  onLoadMore?: () => void;
+  onLoadMore?: () => Promise<void>;
 }) {
   const [threadId, setThreadId] = useQueryState("threadId");
+  const { filters } = useThreads();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Free text is only matched against loaded threads, so a search matching
+  // nothing would page through every thread. Paging stops after a page
+  // without new matches, until more are loaded by hand or the search changes.
+  const [autoLoad, setAutoLoad] = useState(true);
+  const pageStartCount = useRef<number | undefined>(undefined);
+
+  const searchText = parseThreadSearchQuery(filters.query).text;
+  const visibleThreads = threads.filter(
+    (t) =>
+      (filters.showArchived || !isThreadArchived(t)) &&
+      threadMatchesText(t, searchText),
+  );
+  const groups = groupThreadsByDate(visibleThreads);
+
+  const loadMore = useCallback(() => {
+    if (!onLoadMore) return;
+    pageStartCount.current = visibleThreads.length;
+    setLoadingMore(true);
+    onLoadMore().finally(() => setLoadingMore(false));
+  }, [onLoadMore, visibleThreads.length]);
+
+  useEffect(() => {
+    setAutoLoad(true);
+    pageStartCount.current = undefined;
+  }, [filters]);
+
+  useEffect(() => {
+    if (loadingMore || pageStartCount.current === undefined) return;
+    setAutoLoad(visibleThreads.length > pageStartCount.current);
+    pageStartCount.current = undefined;
+  }, [loadingMore, visibleThreads.length]);
+
+  // Load the next page whenever the end of the list scrolls into view. The
+  // observer is recreated after every page so that a sentinel which is still
+  // visible (e.g. when search hides most results) keeps loading.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMoreThreads || !autoLoad || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (!entries.some((entry) => entry.isIntersecting)) return;
+        observer.disconnect();
+        loadMore();
+      },
+      { root: scrollRef.current, rootMargin: "200px" },
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMoreThreads, autoLoad, loadMore, loadingMore, threads.length]);
 
   return (
-    <div className="flex h-full w-full flex-col items-start justify-start gap-2 overflow-y-scroll [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent">
-      {threads.length === 0 && (
+    <div
+      ref={scrollRef}
+      className="flex h-full w-full flex-col items-start justify-start gap-2 overflow-y-scroll [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent"
+    >
+      {groups.length === 0 && !hasMoreThreads && (
         <div className="p-4 text-sm text-gray-500">No conversations found</div>
       )}
-      {threads.map((t) => {
-        let itemText = t.thread_id;
-        if (
-          typeof t.values === "object" &&
-          t.values &&
-          "messages" in t.values &&
-          Array.isArray(t.values.messages) &&
-          t.values.messages?.length > 0
-        ) {
-          const firstMessage = t.values.messages[0];
-          itemText = getContentString(firstMessage.content);
-        }
-        return (
-          <div
-            key={t.thread_id}
-            className="w-full px-1"
-          >
-            <Button
-              variant="ghost"
-              className="w-[280px] items-start justify-start text-left font-normal"
-              onClick={(e) => {
-                e.preventDefault();
+      {groups.map((group) => (
+        <div
+          key={group.label}
+          className="flex w-full flex-col gap-1"
+        >
+          <h2 className="text-muted-foreground px-4 pt-2 text-xs font-medium">
+            {group.label}
+          </h2>
+          {group.threads.map((t) => (
+            <ThreadListItem
+              key={t.thread_id}
+              thread={t}
+              isActive={t.thread_id === threadId}
+              onSelect={() => {
                 onThreadClick?.(t.thread_id);
                 if (t.thread_id === threadId) return;
                 setThreadId(t.thread_id);
               }}
-            >
-              <p className="truncate text-ellipsis">{itemText}</p>
-            </Button>
-          </div>
-        );
-      })}
+            />
+          ))}
+        </div>
+      ))}
       {hasMoreThreads && (
-        <div className="w-full px-1">
-          <Button
-            variant="outline"
-            className="w-[280px]"
-            onClick={onLoadMore}
-          >
-            Load More
-          </Button>
+        <div
+          ref={sentinelRef}
+          className="flex w-[280px] justify-center py-2"
+        >
+          {loadingMore ? (
+            <LoaderCircle className="text-muted-foreground size-4 animate-spin" />
+          ) : (
+            !autoLoad && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadMore}
+              >
+                Load more
+              </Button>
+            )
+          )}
         </div>
       )}
     </div>
@@ -105,28 +460,35 @@ export default function ThreadHistory() {
   const { getThreads, loadMoreThreads, threads, setThreads, threadsLoading, setThreadsLoading, hasMoreThreads } =
     useThreads();
 
+  // Fetch threads on sign in, when the filters change and when the sidebar
+  // opens. `getThreads` changes with the filters, so results for earlier
+  // filters are dropped.
   useEffect(() => {
     if (typeof window === "undefined") return;
     if (status === "loading") return;
     if (status === "unauthenticated") return;
 
+    let cancelled = false;
     setThreadsLoading(true);
     getThreads()
-      .then(setThreads)
+      .then((threads) => {
+        if (!cancelled) setThreads(threads);
+      })
       .catch(console.error)
-      .finally(() => setThreadsLoading(false));
-  }, [getThreads, setThreads, setThreadsLoading, session, status]);
-
-  // Refresh threads when sidebar opens
-  useEffect(() => {
-    if (chatHistoryOpen && status === "authenticated") {
-      setThreadsLoading(true);
-      getThreads()
-        .then(setThreads)
-        .catch(console.error)
-        .finally(() => setThreadsLoading(false));
-    }
-  }, [chatHistoryOpen, status, getThreads, setThreads, setThreadsLoading]);
+      .finally(() => {
+        if (!cancelled) setThreadsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    getThreads,
+    setThreads,
+    setThreadsLoading,
+    session,
+    status,
+    chatHistoryOpen,
+  ]);
 
   return (
     <>
@@ -143,10 +505,14 @@ export default function ThreadHistory() {
               <PanelRightClose className="size-5" />
             )}
           </Button>
-          <h1 className="text-xl font-semibold tracking-tight">
-            Thread History
-          </h1>
+          <div className="flex items-center gap-2">
+            <h1 className="text-xl font-semibold tracking-tight">
+              Thread History
+            </h1>
+            <ImportThreadButton />
+          </div>
         </div>
+        <ThreadSearch />
         {threadsLoading ? (
           <ThreadHistoryLoading />
         ) : (
@@ -169,9 +535,11 @@ export default function ThreadHistory() {
             side="left"
             className="flex lg:hidden"
           >
-            <SheetHeader>
+            <SheetHeader className="flex-row items-center gap-2">
               <SheetTitle>Thread History</SheetTitle>
+              <ImportThreadButton />
             </SheetHeader>
+            <ThreadSearch />
             <ThreadList
               threads={threads}
               hasMoreThreads={hasMoreThreads}
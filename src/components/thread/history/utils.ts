@@ -0,0 +1,148 @@
+import type { Thread } from "@langchain/langgraph-sdk";
+import { differenceInCalendarDays } from "date-fns";
+import { getContentString } from "../utils";
+import { getThreadTitle } from "@/lib/thread-title";
+
+export interface ParsedThreadSearch {
+  /**
+   * Exact-match metadata filters, written as `key:value` in the search box.
+   */
+  metadata: Record<string, string>;
+  /**
+   * Remaining free text, matched against the thread's messages and metadata.
+   */
+  text: string;
+}
+
+/**
+ * Splits a search box query into `key:value` metadata filters, which are sent
+ * to `client.threads.search`, and free text, which is matched client-side.
+ */
+export function parseThreadSearchQuery(query: string): ParsedThreadSearch {
+  const metadata: Record<string, string> = {};
+  const text: string[] = [];
+
+  query
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((token) => {
+      const match = /^([\w.-]+):(.+)$/.exec(token);
+      if (match) {
+        metadata[match[1]] = match[2];
+      } else {
+        text.push(token);
+      }
+    });
+
+  return { metadata, text: text.join(" ") };
+}
+
+export function isThreadPinned(thread: Thread): boolean {
+  return thread.metadata?.pinned === true;
+}
+
+export function isThreadArchived(thread: Thread): boolean {
+  return thread.metadata?.archived === true;
+}
+
+/**
+ * Returns the thread's title if it has one, otherwise the text of
+ * its first message, or the thread ID if the thread has no messages yet.
+ */
+export function getThreadPreview(thread: Thread): string {
+  const title = getThreadTitle(thread);
+  if (title) return title;
+  if (
+    typeof thread.values === "object" &&
+    thread.values &&
+    "messages" in thread.values &&
+    Array.isArray(thread.values.messages) &&
+    thread.values.messages?.length > 0
+  ) {
+    const firstMessage = thread.values.messages[0];
+    return getContentString(firstMessage.content);
+  }
+  return thread.thread_id;
+}
+
+/**
+ * Case-insensitive match of free text against every message and metadata
+ * value of a thread.
+ */
+export function threadMatchesText(thread: Thread, text: string): boolean {
+  const needle = text.trim().toLowerCase();
+  if (!needle) return true;
+
+  const haystack: string[] = [thread.thread_id];
+  if (
+    typeof thread.values === "object" &&
+    thread.values &&
+    "messages" in thread.values &&
+    Array.isArray(thread.values.messages)
+  ) {
+    thread.values.messages.forEach((m: any) => {
+      if (m?.content) haystack.push(getContentString(m.content));
+    });
+  }
+  Object.values(thread.metadata ?? {}).forEach((value) => {
+    if (typeof value === "string") haystack.push(value);
+  });
+
+  return haystack.some((value) => value.toLowerCase().includes(needle));
+}
+
+export type ThreadDateGroupLabel =
+  | "Pinned"
+  | "Today"
+  | "Yesterday"
+  | "Last 7 days"
+  | "Older";
+
+export interface ThreadDateGroup {
+  label: ThreadDateGroupLabel;
+  threads: Thread[];
+}
+
+const DATE_GROUP_ORDER: ThreadDateGroupLabel[] = [
+  "Pinned",
+  "Today",
+  "Yesterday",
+  "Last 7 days",
+  "Older",
+];
+
+function getDateGroupLabel(date: Date, now: Date): ThreadDateGroupLabel {
+  const days = differenceInCalendarDays(now, date);
+  if (days <= 0) return "Today";
+  if (days === 1) return "Yesterday";
+  if (days < 7) return "Last 7 days";
+  return "Older";
+}
+
+/**
+ * Buckets threads by the day they were last updated, with pinned threads
+ * collected into their own bucket at the top. Empty buckets are omitted, and
+ * thread order within a bucket is preserved.
+ */
+export function groupThreadsByDate(
+  threads: Thread[],
+  now: Date = new Date(),
+): ThreadDateGroup[] {
+  const groups = new Map<ThreadDateGroupLabel, Thread[]>();
+
+  threads.forEach((thread) => {
+    const label = isThreadPinned(thread)
+      ? "Pinned"
+      : getDateGroupLabel(
+          new Date(thread.updated_at ?? thread.created_at),
+          now,
+        );
+    groups.set(label, [...(groups.get(label) ?? []), thread]);
+  });
+
+  return DATE_GROUP_ORDER.filter((label) => groups.has(label)).map((label) => ({
+    label,
+    threads: groups.get(label)!,
+  }));
+}
@@ -0,0 +1,170 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useMemo,
+  useState,
+  type ReactNode,
+} from "react";
+import { Images } from "lucide-react";
+import { useStreamContext } from "@/providers/Stream";
+import { STATE_MEDIA_FIELDS } from "@/lib/state-media";
+import { collectThreadImages, type ThreadImage } from "@/lib/thread-images";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { TooltipIconButton } from "../tooltip-icon-button";
+import { ImageLightbox } from "./lightbox";
+
+type ImageAttacher = (image: ThreadImage) => void;
+
+interface ImageGalleryContextType {
+  images: ThreadImage[];
+  /** Opens `src` in the lightbox, alongside the rest of the thread's images */
+  openImage: (src: string) => void;
+  openGallery: () => void;
+  /**
+   * Set by the composer to attach images to the next message, which enables
+   * the lightbox's "Use as input" button.
+   */
+  setImageAttacher: (attacher: ImageAttacher | undefined) => void;
+}
+
+const ImageGalleryContext = createContext<ImageGalleryContextType | null>(null);
+
+/**
+ * Returns `null` outside an `ImageGalleryProvider`, e.g. in shared threads,
+ * where images aren't opened in the lightbox.
+ */
+export function useImageGallery() {
+  return useContext(ImageGalleryContext);
+}
+
+/**
+ * Collects the images in the current thread, and provides the gallery and
+ * lightbox they're viewed in.
+ */
+export function ImageGalleryProvider({ children }: { children: ReactNode }) {
+  const { messages, history, values } = useStreamContext();
+  const images = useMemo(
+    () =>
+      collectThreadImages(
+        messages,
+        // The current branch's states, oldest first
+        [...history.map((state) => state.values), values],
+        STATE_MEDIA_FIELDS,
+      ),
+    [messages, history, values],
+  );
+
+  const [imageAttacher, setImageAttacherState] = useState<ImageAttacher>();
+  // Functions passed to state setters are treated as updaters, so wrap them
+  const setImageAttacher = useCallback(
+    (attacher: ImageAttacher | undefined) =>
+      setImageAttacherState(() => attacher),
+    [],
+  );
+  const [galleryOpen, setGalleryOpen] = useState(false);
+  // Images not found in the thread, e.g. in tool results, are shown alone
+  const [lightbox, setLightbox] = useState<{
+    images: ThreadImage[];
+    index: number;
+  } | null>(null);
+
+  const openImage = useCallback(
+    (src: string) => {
+      const index = images.findIndex((image) => image.src === src);
+      setLightbox(
+        index === -1
+          ? { images: [{ src, source: "assistant" }], index: 0 }
+          : { images, index },
+      );
+    },
+    [images],
+  );
+
+  const value = useMemo(
+    () => ({
+      images,
+      openImage,
+      openGallery: () => setGalleryOpen(true),
+      setImageAttacher,
+    }),
+    [images, openImage, setImageAttacher],
+  );
+
+  return (
+    <ImageGalleryContext.Provider value={value}>
+      {children}
+      <Sheet
+        open={galleryOpen}
+        onOpenChange={setGalleryOpen}
+      >
+        <SheetContent className="sm:max-w-md">
+          <SheetHeader>
+            <SheetTitle>Images</SheetTitle>
+            <SheetDescription>
+              Images sent and generated in this thread.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="grid grid-cols-3 gap-2 overflow-y-auto px-4 pb-4">
+            {images.map((image) => (
+              <button
+                key={image.src}
+                type="button"
+                className="group bg-muted relative aspect-square cursor-zoom-in overflow-hidden rounded-md border"
+                onClick={() => openImage(image.src)}
+                title={image.caption ?? image.name}
+              >
+                <img
+                  src={image.src}
+                  alt={image.caption ?? image.name ?? "Image"}
+                  loading="lazy"
+                  className="size-full object-cover transition-transform group-hover:scale-105"
+                />
+                <span className="absolute bottom-1 left-1 rounded bg-black/60 px-1 text-[10px] text-white">
+                  {image.source === "user" ? "Sent" : "Generated"}
+                </span>
+              </button>
+            ))}
+          </div>
+        </SheetContent>
+      </Sheet>
+      {lightbox && (
+        <ImageLightbox
+          images={lightbox.images}
+          index={lightbox.index}
+          onIndexChange={(index) =>
+            setLightbox((prev) => (prev ? { ...prev, index } : prev))
+          }
+          onClose={() => setLightbox(null)}
+          onUseAsInput={imageAttacher}
+        />
+      )}
+    </ImageGalleryContext.Provider>
+  );
+}
+
+/**
+ * Opens the thread's image gallery. Hidden until the thread has images.
+ */
+export function ImageGalleryButton() {
+  const gallery = useImageGallery();
+  if (!gallery?.images.length) return null;
+
+  return (
+    <TooltipIconButton
+      size="lg"
+      className="p-4"
+      tooltip={`Images (${gallery.images.length})`}
+      variant="ghost"
+      onClick={gallery.openGallery}
+    >
+      <Images className="size-5" />
+    </TooltipIconButton>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import * as DialogPrimitive from "@radix-ui/react-dialog";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  Download,
+  ImagePlus,
+  RotateCcw,
+  XIcon,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  copyImageToClipboard,
+  fetchImageBlob,
+  getImageFileName,
+  type ThreadImage,
+} from "@/lib/thread-images";
+import { downloadBlob } from "@/lib/export-thread";
+import { cn } from "@/lib/utils";
+import { TooltipIconButton } from "../tooltip-icon-button";
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const ZOOM_STEP = 1.25;
+
+const clampScale = (scale: number) =>
+  Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+const toolbarButtonClassName =
+  "text-white hover:bg-white/15 hover:text-white disabled:opacity-40";
+
+/**
+ * Full screen image viewer. Zoom with the mouse wheel, double click or +/-,
+ * drag to pan while zoomed, and use the arrow keys to move between images.
+ */
+export function ImageLightbox({
+  images,
+  index,
+  onIndexChange,
+  onClose,
+  onUseAsInput,
+}: {
+  images: ThreadImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  onUseAsInput?: (image: ThreadImage) => void;
+}) {
+  const image = images[index];
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const drag = useRef<{ x: number; y: number } | null>(null);
+
+  const resetZoom = () => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  };
+  const zoom = (factor: number) => {
+    const next = clampScale(scale * factor);
+    setScale(next);
+    if (next === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  };
+
+  useEffect(() => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  }, [index]);
+
+  if (!image) return null;
+
+  const hasPrevious = index > 0;
+  const hasNext = index < images.length - 1;
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowLeft" && hasPrevious) onIndexChange(index - 1);
+    else if (e.key === "ArrowRight" && hasNext) onIndexChange(index + 1);
+    else if (e.key === "+" || e.key === "=") zoom(ZOOM_STEP);
+    else if (e.key === "-") zoom(1 / ZOOM_STEP);
+    else if (e.key === "0") resetZoom();
+    else return;
+    e.preventDefault();
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLImageElement>) => {
+    if (scale === MIN_SCALE) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX - offset.x, y: e.clientY - offset.y };
+  };
+  const handlePointerMove = (e: PointerEvent<HTMLImageElement>) => {
+    if (!drag.current) return;
+    setOffset({ x: e.clientX - drag.current.x, y: e.clientY - drag.current.y });
+  };
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const handleDownload = async () => {
+    try {
+      const blob = await fetchImageBlob(image.src);
+      downloadBlob(blob, getImageFileName(image, blob.type));
+    } catch {
+      // Cross-origin images can't be fetched, so let the browser open them
+      window.open(image.src, "_blank", "noopener,noreferrer");
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await copyImageToClipboard(image.src);
+      toast.success("Image copied to clipboard");
+    } catch (error) {
+      console.error("Failed to copy image:", error);
+      toast.error("Failed to copy image");
+    }
+  };
+
+  return (
+    <DialogPrimitive.Root
+      open
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay className="data-[state=open]:animate-in data-[state=open]:fade-in-0 fixed inset-0 z-50 bg-black/90" />
+        <DialogPrimitive.Content
+          className="fixed inset-0 z-50 flex flex-col outline-none"
+          onKeyDown={handleKeyDown}
+          aria-describedby={undefined}
+        >
+          <div className="flex items-center gap-2 p-3 text-white">
+            <DialogPrimitive.Title className="min-w-0 flex-1 truncate text-sm">
+              {image.caption ?? getImageFileName(image)}
+              {images.length > 1 && (
+                <span className="ml-2 text-white/60">
+                  {index + 1} / {images.length}
+                </span>
+              )}
+            </DialogPrimitive.Title>
+            <TooltipIconButton
+              tooltip="Zoom out (-)"
+              className={toolbarButtonClassName}
+              disabled={scale === MIN_SCALE}
+              onClick={() => zoom(1 / ZOOM_STEP)}
+            >
+              <ZoomOut className="size-5" />
+            </TooltipIconButton>
+            <TooltipIconButton
+              tooltip="Zoom in (+)"
+              className={toolbarButtonClassName}
+              disabled={scale === MAX_SCALE}
+              onClick={() => zoom(ZOOM_STEP)}
+            >
+              <ZoomIn className="size-5" />
+            </TooltipIconButton>
+            <TooltipIconButton
+              tooltip="Reset zoom (0)"
+              className={toolbarButtonClassName}
+              disabled={scale === MIN_SCALE}
+              onClick={resetZoom}
+            >
+              <RotateCcw className="size-5" />
+            </TooltipIconButton>
+            <TooltipIconButton
+              tooltip="Copy image"
+              className={toolbarButtonClassName}
+              onClick={handleCopy}
+            >
+              <Copy className="size-5" />
+            </TooltipIconButton>
+            <TooltipIconButton
+              tooltip="Download"
+              className={toolbarButtonClassName}
+              onClick={handleDownload}
+            >
+              <Download className="size-5" />
+            </TooltipIconButton>
+            {onUseAsInput && (
+              <TooltipIconButton
+                tooltip="Use as input"
+                className={toolbarButtonClassName}
+                onClick={() => {
+                  onUseAsInput(image);
+                  onClose();
+                }}
+              >
+                <ImagePlus className="size-5" />
+              </TooltipIconButton>
+            )}
+            <DialogPrimitive.Close asChild>
+              <TooltipIconButton
+                tooltip="Close (Esc)"
+                className={toolbarButtonClassName}
+              >
+                <XIcon className="size-5" />
+              </TooltipIconButton>
+            </DialogPrimitive.Close>
+          </div>
+
+          <div
+            className="relative flex min-h-0 flex-1 items-center justify-center overflow-hidden"
+            onWheel={(e) => zoom(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP)}
+          >
+            <img
+              src={image.src}
+              alt={image.caption ?? image.name ?? "Image"}
+              draggable={false}
+              className="max-h-full max-w-full object-contain select-none"
+              style={{
+                transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+                cursor: scale > MIN_SCALE ? "grab" : "zoom-in",
+              }}
+              onDoubleClick={() => (scale > MIN_SCALE ? resetZoom() : zoom(2))}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+            {hasPrevious && (
+              <TooltipIconButton
+                tooltip="Previous (←)"
+                className={cn(
+                  toolbarButtonClassName,
+                  "absolute left-3 size-10 rounded-full bg-black/40",
+                )}
+                onClick={() => onIndexChange(index - 1)}
+              >
+                <ChevronLeft className="size-6" />
+              </TooltipIconButton>
+            )}
+            {hasNext && (
+              <TooltipIconButton
+                tooltip="Next (→)"
+                className={cn(
+                  toolbarButtonClassName,
+                  "absolute right-3 size-10 rounded-full bg-black/40",
+                )}
+                onClick={() => onIndexChange(index + 1)}
+              >
+                <ChevronRight className="size-6" />
+              </TooltipIconButton>
+            )}
+          </div>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  );
+}
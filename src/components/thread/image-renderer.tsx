@@ -1,5 +1,7 @@
 import { useState } from "react";
 import type { ReactElement } from "react";
+import { cn } from "@/lib/utils";
+import { useImageGallery } from "./image-gallery";
 
 // Helper function to detect if a value looks like an image
 export function isImageValue(key: string, value: unknown): boolean {
@@ -51,6 +53,7 @@ export function ImageRenderer({
   contentBlock?: any;
 }) {
   const [imageError, setImageError] = useState(false);
+  const gallery = useImageGallery();
 
   // Handle different source types
   const getImageSrc = () => {
@@ -86,7 +89,11 @@ export function ImageRenderer({
       <img
         src={getImageSrc()}
         alt={alt || "Generated image"}
-        className="max-h-96 max-w-full rounded-lg border border-gray-200 shadow-sm"
+        className={cn(
+          "max-h-96 max-w-full rounded-lg border border-gray-200 shadow-sm",
+          gallery && "cursor-zoom-in",
+        )}
+        onClick={() => gallery?.openImage(getImageSrc())}
         onError={() => setImageError(true)}
         loading="lazy"
       />
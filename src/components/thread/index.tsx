@@ -1,14 +1,15 @@
 import { v4 as uuidv4 } from "uuid";
-import { ReactNode, useEffect, useRef } from "react";
+import { ReactNode, useCallback, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { useStreamContext } from "@/providers/Stream";
+import { useThreads } from "@/providers/Thread";
 import { useState, FormEvent } from "react";
-import { useSession } from "next-auth/react";
 import { Button } from "../ui/button";
 import { Checkpoint, Message } from "@langchain/langgraph-sdk";
 import { AssistantMessage, AssistantMessageLoading } from "./messages/ai";
 import { HumanMessage } from "./messages/human";
+import { QueuedHumanMessage } from "./messages/queued";
 import {
   DO_NOT_RENDER_ID_PREFIX,
   ensureToolCallsHaveResponses,
@@ -16,6 +17,14 @@ import {
 import { FacetAILogoSVG, FacetAITextLogoSVG } from "@/components/icons/facetai";
 import { ChatHeader } from "@/components/chat-header";
 import { TooltipIconButton } from "./tooltip-icon-button";
+import { ExportThreadMenu } from "./export-thread-menu";
+import { ShareThreadMenu } from "./share-thread-menu";
+import { ComposerSettingsMenu } from "./composer-settings-menu";
+import { ImageGalleryButton, useImageGallery } from "./image-gallery";
+import { CheckpointTimeline } from "./checkpoint-timeline";
+import { BranchTree } from "./branch-tree";
+import { AdvancedInput } from "./advanced-input";
+import type { SchemaFormValues } from "./schema-form";
 import {
   ArrowDown,
   LoaderCircle,
@@ -24,14 +33,17 @@ import {
   SquarePen,
   XIcon,
   Plus,
+  Square,
 } from "lucide-react";
-import { useQueryState, parseAsBoolean } from "nuqs";
+import { useQueryState, parseAsBoolean, parseAsStringLiteral } from "nuqs";
 import { StickToBottom, useStickToBottomContext } from "use-stick-to-bottom";
 import ThreadHistory from "./history";
 import { toast } from "sonner";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { Label } from "../ui/label";
+import { Switch } from "../ui/switch";
 import { useFileUpload } from "@/hooks/use-file-upload";
+import { useInputFields } from "@/hooks/use-assistant-schemas";
 import { ContentBlocksPreview } from "./ContentBlocksPreview";
 import {
   useArtifactOpen,
@@ -39,7 +51,23 @@ import {
   ArtifactTitle,
   useArtifactContext,
 } from "./artifact";
-import { convertObjectUrlsToBase64 } from "@/lib/multimodal-utils";
+import { SUPPORTED_FILE_ACCEPT } from "@/lib/multimodal-utils";
+import { getThreadTitle } from "@/lib/thread-title";
+import { uploadFile } from "@/lib/uploads";
+import { IMAGE_QUALITY_PRESET_NAMES } from "@/lib/image-processing";
+import { CONTINUE_PROMPT } from "@/lib/stopped-messages";
+import { withoutRestoredArtifact } from "@/lib/artifact-versions";
+import type { ResponsePreference } from "@/lib/response-comparison";
+import {
+  threadImageToContentBlock,
+  type ThreadImage,
+} from "@/lib/thread-images";
+import {
+  QUEUE_STRATEGIES,
+  QUEUE_STRATEGY_LABELS,
+  type QueuedMessage,
+  type QueueStrategy,
+} from "@/lib/queued-messages";
 
 function StickyToBottomContent(props: {
   content: ReactNode;
@@ -83,7 +111,6 @@ function ScrollToBottom(props: { className?: string }) {
 }
 
 export function Thread() {
-  const { data: session } = useSession();
   const [artifactContext, setArtifactContext] = useArtifactContext();
   const [artifactOpen, closeArtifact] = useArtifactOpen();
 
@@ -92,17 +119,52 @@ export function Thread() {
     "chatHistoryOpen",
     parseAsBoolean.withDefault(false),
   );
+  const [hideToolCalls, setHideToolCalls] = useQueryState(
+    "hideToolCalls",
+    parseAsBoolean.withDefault(false),
+  );
+  const [imageQuality, setImageQuality] = useQueryState(
+    "imageQuality",
+    parseAsStringLiteral(IMAGE_QUALITY_PRESET_NAMES).withDefault("balanced"),
+  );
+  const [queueStrategy, setQueueStrategy] = useQueryState(
+    "queueStrategy",
+    parseAsStringLiteral(QUEUE_STRATEGIES).withDefault("enqueue"),
+  );
+  const [queuedMessages, setQueuedMessages] = useState<QueuedMessage[]>([]);
   const [input, setInput] = useState("");
-  const [isProcessingImages, setIsProcessingImages] = useState(false);
+  const [advancedInputOpen, setAdvancedInputOpen] = useQueryState(
+    "advancedInput",
+    parseAsBoolean.withDefault(false),
+  );
+  const [advancedInput, setAdvancedInput] = useState<SchemaFormValues>({});
+  const inputFields = useInputFields();
+  const [isUploadingFiles, setIsUploadingFiles] = useState(false);
   const {
     contentBlocks,
-    setContentBlocks,
     handleFileUpload,
     dropRef,
     removeBlock,
+    resetBlocks,
+    setContentBlocks,
     dragOver,
     handlePaste,
-  } = useFileUpload();
+  } = useFileUpload({ imageQuality });
+
+  // Lets images in the lightbox be attached to the next message
+  const { setImageAttacher } = useImageGallery() ?? {};
+  const attachThreadImage = useCallback(
+    async (image: ThreadImage) => {
+      const block = await threadImageToContentBlock(image, imageQuality);
+      if (block) setContentBlocks((prev) => [...prev, block]);
+    },
+    [imageQuality, setContentBlocks],
+  );
+  useEffect(() => {
+    if (!setImageAttacher) return;
+    setImageAttacher(attachThreadImage);
+    return () => setImageAttacher(undefined);
+  }, [setImageAttacher, attachThreadImage]);
   const [firstTokenReceived, setFirstTokenReceived] = useState(false);
   const isLargeScreen = useMediaQuery("(min-width: 1024px)");
 
@@ -110,6 +172,12 @@ export function Thread() {
   const messages = stream.messages;
   const isLoading = stream.isLoading;
 
+  const { threads, setPreferredResponse } = useThreads();
+  const threadTitle = threadId
+    ? (getThreadTitle(threads.find((t) => t.thread_id === threadId)) ??
+      stream.values.title)
+    : undefined;
+
   const lastError = useRef<string | undefined>(undefined);
 
   const setThreadId = (id: string | null) => {
@@ -161,90 +229,15 @@ export function Thread() {
     prevMessageLength.current = messages.length;
   }, [messages]);
 
-  const handleSubmit = async (e: FormEvent) => {
-    e.preventDefault();
-    if ((input.trim().length === 0 && contentBlocks.length === 0) || isLoading || isProcessingImages)
-      return;
-    setFirstTokenReceived(false);
-
-    // Show processing state if we have large images to process
-    const hasLargeImages = contentBlocks.some(block => 
-      block.source_type === "url" && block.metadata?.isObjectUrl
-    );
-    
-    if (hasLargeImages) {
-      setIsProcessingImages(true);
-    }
-
-    try {
-      // Handle large images by converting object URLs to base64 with compression
-      const processedContentBlocks = await Promise.all(
-      contentBlocks.map(async (block) => {
-        if (block.source_type === "url" && block.metadata?.isObjectUrl) {
-          try {
-            // Convert object URL to base64 with size optimization
-            const response = await fetch(block.data);
-            const blob = await response.blob();
-            
-            // Create a canvas to resize large images
-            const img = new Image();
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d')!;
-            
-            return new Promise<typeof block>((resolve) => {
-              img.onload = () => {
-                // Calculate new dimensions to keep image under 2MB when base64 encoded
-                const maxDimension = 1920; // Max width or height
-                let { width, height } = img;
-                
-                if (width > maxDimension || height > maxDimension) {
-                  if (width > height) {
-                    height = (height * maxDimension) / width;
-                    width = maxDimension;
-                  } else {
-                    width = (width * maxDimension) / height;
-                    height = maxDimension;
-                  }
-                }
-                
-                canvas.width = width;
-                canvas.height = height;
-                ctx.drawImage(img, 0, 0, width, height);
-                
-                // Convert to base64 with quality adjustment
-                const quality = 0.8; // 80% quality to reduce size
-                const base64Data = canvas.toDataURL(block.mime_type, quality);
-                const cleanBase64 = base64Data.split(',')[1];
-                
-                resolve({
-                  ...block,
-                  source_type: "base64" as const,
-                  data: cleanBase64,
-                  metadata: {
-                    ...block.metadata,
-                    isObjectUrl: false,
-                    resized: width !== img.width || height !== img.height,
-                  },
-                });
-              };
-              img.src = block.data;
-            });
-          } catch (error) {
-            console.error("Failed to process image:", error);
-            return block;
-          }
-        }
-        return block;
-      })
-    );
-
+  const submitHumanMessage = (
+    content: Message["content"],
+    multitaskStrategy?: QueueStrategy,
+    extraInput?: Record<string, unknown>,
+  ) => {
     const newHumanMessage: Message = {
       id: uuidv4(),
       type: "human",
-      content: [
-        ...(input.trim().length > 0 ? [{ type: "text", text: input }] : []),
-        ...processedContentBlocks,
-      ] as Message["content"],
+      content,
     };
 
     const toolMessages = ensureToolCallsHaveResponses(stream.messages);
@@ -252,16 +245,14 @@ export function Thread() {
     const context =
       Object.keys(artifactContext).length > 0 ? artifactContext : undefined;
 
-    // Get user ID for metadata
-    const userId = (session?.user as any)?.id;
-
     stream.submit(
-      { messages: [...toolMessages, newHumanMessage], context },
+      { ...extraInput, messages: [...toolMessages, newHumanMessage], context },
       {
         streamMode: ["values"],
-        config: userId ? { configurable: { user_id: userId } } : undefined,
+        multitaskStrategy,
         optimisticValues: (prev) => ({
           ...prev,
+          ...extraInput,
           context,
           messages: [
             ...(prev.messages ?? []),
@@ -271,19 +262,124 @@ export function Thread() {
         }),
       },
     );
+    // A restored artifact version is only sent with one message
+    setArtifactContext(withoutRestoredArtifact);
+  };
+
+  // Messages sent during a run are held until it finishes. The interrupt and
+  // rollback strategies stop the run so they're sent straight away.
+  const sendOrQueueMessage = (
+    content: Message["content"],
+    extraInput?: Record<string, unknown>,
+  ) => {
+    if (!isLoading) {
+      setFirstTokenReceived(false);
+      submitHumanMessage(content, undefined, extraInput);
+      return;
+    }
+    setQueuedMessages((prev) => [
+      ...prev,
+      { id: uuidv4(), content, input: extraInput },
+    ]);
+    if (queueStrategy !== "enqueue") stream.abortStream();
+  };
+
+  // Send queued messages one at a time as each run finishes, unless the run
+  // is waiting on the user to respond to an interrupt
+  useEffect(() => {
+    if (isLoading || stream.isStopping || stream.interrupt) return;
+    const [next, ...rest] = queuedMessages;
+    if (!next) return;
+    setQueuedMessages(rest);
+    setFirstTokenReceived(false);
+    submitHumanMessage(next.content, queueStrategy, next.input);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading, stream.isStopping, stream.interrupt, queuedMessages]);
+
+  // Queued messages belong to the thread they were written in. A new thread
+  // getting its ID on the first run isn't a switch.
+  const prevThreadId = useRef(threadId);
+  useEffect(() => {
+    if (prevThreadId.current && prevThreadId.current !== threadId) {
+      setQueuedMessages([]);
+    }
+    prevThreadId.current = threadId;
+  }, [threadId]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (
+      (input.trim().length === 0 && contentBlocks.length === 0) ||
+      isUploadingFiles ||
+      stream.isStopping
+    )
+      return;
+
+    // Large files are attached as object URLs and uploaded before sending
+    const hasPendingUploads = contentBlocks.some(
+      (block) => block.source_type === "url" && block.metadata?.isObjectUrl,
+    );
+
+    if (hasPendingUploads) {
+      setIsUploadingFiles(true);
+    }
+
+    try {
+      // Upload large files so the message carries their URL instead of the
+      // file itself, which keeps requests under API gateway size limits
+      const processedContentBlocks = await Promise.all(
+        contentBlocks.map(async (block) => {
+          if (block.source_type !== "url" || !block.metadata?.isObjectUrl) {
+            return block;
+          }
+          const blob = await (await fetch(block.url)).blob();
+          const url = await uploadFile(
+            blob,
+            block.metadata.name ?? "upload",
+            block.mime_type ?? blob.type,
+          );
+          return {
+            ...block,
+            url,
+            metadata: { ...block.metadata, isObjectUrl: false },
+          };
+        }),
+      );
+
+      const extraInput =
+        advancedInputOpen && Object.keys(advancedInput).length > 0
+          ? advancedInput
+          : undefined;
+      sendOrQueueMessage(
+        [
+          ...(input.trim().length > 0 ? [{ type: "text", text: input }] : []),
+          ...processedContentBlocks,
+        ] as Message["content"],
+        extraInput,
+      );
 
       setInput("");
-      setContentBlocks([]);
+      setAdvancedInput({});
+      resetBlocks();
     } catch (error) {
       console.error("Failed to submit message:", error);
       toast.error("Failed to send message", {
-        description: "There was an error processing your images. Please try again.",
+        description:
+          error instanceof Error
+            ? error.message
+            : "There was an error uploading your files. Please try again.",
       });
     } finally {
-      setIsProcessingImages(false);
+      setIsUploadingFiles(false);
     }
   };
 
+  // Picks up a stopped answer, which the model sees as its last message
+  const handleContinue = () => {
+    setFirstTokenReceived(false);
+    submitHumanMessage(CONTINUE_PROMPT);
+  };
+
   const handleRegenerate = (
     parentCheckpoint: Checkpoint | null | undefined,
   ) => {
@@ -291,16 +387,19 @@ export function Thread() {
     prevMessageLength.current = prevMessageLength.current - 1;
     setFirstTokenReceived(false);
 
-    // Get user ID for metadata
-    const userId = (session?.user as any)?.id;
-
     stream.submit(undefined, {
       checkpoint: parentCheckpoint,
       streamMode: ["values"],
-      config: userId ? { configurable: { user_id: userId } } : undefined,
     });
   };
 
+  const handlePreferResponse = async (
+    forkCheckpointId: string,
+    preference: ResponsePreference,
+  ) =>
+    !!threadId &&
+    (await setPreferredResponse(threadId, forkCheckpointId, preference));
+
   const chatStarted = !!threadId || !!messages.length;
   const hasNoAIOrToolMessages = !messages.find(
     (m) => m.type === "ai" || m.type === "tool",
@@ -311,6 +410,7 @@ export function Thread() {
       <ChatHeader
         onToggleSidebar={() => setChatHistoryOpen(!chatHistoryOpen)}
         showSidebarToggle={true}
+        title={threadTitle}
       />
       <div className="flex flex-1 overflow-hidden">
         <div className="relative hidden lg:flex">
@@ -430,6 +530,11 @@ export function Thread() {
                 </div>
 
                 <div className="flex items-center gap-4">
+                  <BranchTree />
+                  <CheckpointTimeline />
+                  <ImageGalleryButton />
+                  <ShareThreadMenu />
+                  <ExportThreadMenu title={threadTitle} />
                   <TooltipIconButton
                     size="lg"
                     className="p-4"
@@ -470,6 +575,8 @@ export function Thread() {
                             message={message}
                             isLoading={isLoading}
                             handleRegenerate={handleRegenerate}
+                            handleContinue={handleContinue}
+                            handlePreferResponse={handlePreferResponse}
                           />
                         ),
                       )}
@@ -486,6 +593,17 @@ export function Thread() {
                     {isLoading && !firstTokenReceived && (
                       <AssistantMessageLoading />
                     )}
+                    {queuedMessages.map((queued) => (
+                      <QueuedHumanMessage
+                        key={queued.id}
+                        message={queued}
+                        onRemove={() =>
+                          setQueuedMessages((prev) =>
+                            prev.filter((m) => m.id !== queued.id),
+                          )
+                        }
+                      />
+                    ))}
                   </>
                 }
                 footer={
@@ -503,6 +621,13 @@ export function Thread() {
 
                     <ScrollToBottom className="animate-in fade-in-0 zoom-in-95 absolute bottom-full left-1/2 mb-4 -translate-x-1/2" />
 
+                    {stream.isReconnecting && (
+                      <div className="mx-auto mb-2 flex w-full max-w-3xl items-center justify-center gap-2 rounded-md border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                        <LoaderCircle className="h-4 w-4 animate-spin" />
+                        Connection lost. Reconnecting to the run...
+                      </div>
+                    )}
+
                     <div
                       ref={dropRef}
                       className={cn(
@@ -516,6 +641,13 @@ export function Thread() {
                         onSubmit={handleSubmit}
                         className="mx-auto grid max-w-3xl grid-rows-[1fr_auto] gap-2"
                       >
+                        {advancedInputOpen && inputFields.length > 0 && (
+                          <AdvancedInput
+                            fields={inputFields}
+                            values={advancedInput}
+                            onChange={setAdvancedInput}
+                          />
+                        )}
                         <ContentBlocksPreview
                           blocks={contentBlocks}
                           onRemove={removeBlock}
@@ -542,52 +674,99 @@ export function Thread() {
                         />
 
                         <div className="flex items-center gap-6 p-2 pt-4">
+                          <div className="flex items-center space-x-2">
+                            <Switch
+                              id="render-tool-calls"
+                              checked={hideToolCalls ?? false}
+                              onCheckedChange={setHideToolCalls}
+                            />
+                            <Label
+                              htmlFor="render-tool-calls"
+                              className="text-sm text-gray-600"
+                            >
+                              Hide Tool Calls
+                            </Label>
+                          </div>
+                          {inputFields.length > 0 && (
+                            <div className="flex items-center space-x-2">
+                              <Switch
+                                id="advanced-input"
+                                checked={advancedInputOpen}
+                                onCheckedChange={setAdvancedInputOpen}
+                              />
+                              <Label
+                                htmlFor="advanced-input"
+                                className="text-sm text-gray-600"
+                              >
+                                Advanced Input
+                              </Label>
+                            </div>
+                          )}
                           <Label
                             htmlFor="file-input"
                             className="flex cursor-pointer items-center gap-2"
                           >
                             <Plus className="size-5 text-gray-600" />
                             <span className="text-sm text-gray-600">
-                              Upload Image
+                              Upload File
                             </span>
                           </Label>
+                          <ComposerSettingsMenu
+                            imageQuality={imageQuality}
+                            onImageQualityChange={setImageQuality}
+                            queueStrategy={queueStrategy}
+                            onQueueStrategyChange={setQueueStrategy}
+                          />
                           <input
                             id="file-input"
                             type="file"
                             onChange={handleFileUpload}
                             multiple
-                            accept="image/jpeg,image/png,image/gif,image/webp,application/pdf"
+                            accept={SUPPORTED_FILE_ACCEPT}
                             className="hidden"
                           />
-                          {stream.isLoading ? (
+                          {(stream.isLoading || stream.isStopping) && (
                             <Button
                               key="stop"
-                              onClick={() => stream.stop()}
+                              type="button"
+                              variant="outline"
+                              onClick={() => stream.stopRun()}
+                              disabled={stream.isStopping}
                               className="ml-auto"
                             >
-                              <LoaderCircle className="h-4 w-4 animate-spin" />
-                              Cancel
-                            </Button>
-                          ) : (
-                            <Button
-                              type="submit"
-                              className="ml-auto shadow-md transition-all"
-                              disabled={
-                                isLoading ||
-                                isProcessingImages ||
-                                (!input.trim() && contentBlocks.length === 0)
-                              }
-                            >
-                              {isProcessingImages ? (
-                                <>
-                                  <LoaderCircle className="h-4 w-4 animate-spin mr-2" />
-                                  Processing images...
-                                </>
+                              {stream.isStopping ? (
+                                <LoaderCircle className="h-4 w-4 animate-spin" />
                               ) : (
-                                "Send"
+                                <Square className="h-4 w-4 fill-current" />
                               )}
+                              {stream.isStopping ? "Stopping..." : "Stop"}
                             </Button>
                           )}
+                          <Button
+                            type="submit"
+                            className={cn(
+                              "shadow-md transition-all",
+                              !stream.isLoading &&
+                                !stream.isStopping &&
+                                "ml-auto",
+                            )}
+                            disabled={
+                              isUploadingFiles ||
+                              stream.isStopping ||
+                              (!input.trim() && contentBlocks.length === 0)
+                            }
+                          >
+                            {isUploadingFiles ? (
+                              <>
+                                <LoaderCircle className="mr-2 h-4 w-4 animate-spin" />
+                                Uploading files...
+                              </>
+                            ) : isLoading ? (
+                              QUEUE_STRATEGY_LABELS[queueStrategy].label
+                            ) : (
+                              "Send"
+                            )}
+                          </Button>
                         </div>
                       </form>
                     </div>
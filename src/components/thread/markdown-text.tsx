@@ -6,11 +6,34 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeKatex from "rehype-katex";
 import remarkMath from "remark-math";
-import { FC, memo, useState } from "react";
-import { CheckIcon, CopyIcon } from "lucide-react";
+import { FC, memo, ReactNode, useMemo, useState } from "react";
+import {
+  CheckIcon,
+  CodeIcon,
+  CopyIcon,
+  FileImageIcon,
+  ImageDownIcon,
+  WorkflowIcon,
+} from "lucide-react";
+import { toast } from "sonner";
 import { SyntaxHighlighter } from "@/components/thread/syntax-highlighter";
 
 import { TooltipIconButton } from "@/components/thread/tooltip-icon-button";
+import { Chart } from "@/components/thread/chart";
+import { OpenCodeArtifactButton } from "@/components/thread/code-artifact";
+import { parseChartSpec } from "@/lib/charts";
+import {
+  getCodeArtifactVersion,
+  isCodeArtifactLanguage,
+} from "@/lib/code-artifacts";
+import {
+  isDiagramLanguage,
+  svgToDataUrl,
+  svgToPngBlob,
+  type DiagramLanguage,
+} from "@/lib/diagrams";
+import { downloadBlob, downloadFile } from "@/lib/export-thread";
+import { useRenderedDiagram } from "@/hooks/use-rendered-diagram";
 import { cn } from "@/lib/utils";
 
 import "katex/dist/katex.min.css";
@@ -68,6 +91,8 @@ function preprocessImageContent(content: string): string {
 interface CodeHeaderProps {
   language?: string;
   code: string;
+  /** Extra buttons, shown before the copy button */
+  children?: ReactNode;
 }
 
 const useCopyToClipboard = ({
@@ -89,7 +114,7 @@ const useCopyToClipboard = ({
   return { isCopied, copyToClipboard };
 };
 
-const CodeHeader: FC<CodeHeaderProps> = ({ language, code }) => {
+const CodeHeader: FC<CodeHeaderProps> = ({ language, code, children }) => {
   const { isCopied, copyToClipboard } = useCopyToClipboard();
   const onCopy = () => {
     if (!code || isCopied) return;
@@ -99,17 +124,162 @@ const CodeHeader: FC<CodeHeaderProps> = ({ language, code }) => {
   return (
     <div className="flex items-center justify-between gap-4 rounded-t-lg bg-zinc-900 px-4 py-2 text-sm font-semibold text-white">
       <span className="lowercase [&>span]:text-xs">{language}</span>
-      <TooltipIconButton
-        tooltip="Copy"
-        onClick={onCopy}
-      >
-        {!isCopied && <CopyIcon />}
-        {isCopied && <CheckIcon />}
-      </TooltipIconButton>
+      <div className="flex items-center gap-1">
+        {children}
+        <TooltipIconButton
+          tooltip="Copy"
+          onClick={onCopy}
+        >
+          {!isCopied && <CopyIcon />}
+          {isCopied && <CheckIcon />}
+        </TooltipIconButton>
+      </div>
     </div>
   );
 };
 
+function parseChartCode(code: string) {
+  try {
+    return parseChartSpec(JSON.parse(code));
+  } catch {
+    return undefined;
+  }
+}
+
+// Renders `chart` code blocks, falling back to the code until it parses,
+// e.g. while the block is streaming in
+function ChartCodeBlock({
+  code,
+  className,
+}: {
+  code: string;
+  className?: string;
+}) {
+  const spec = useMemo(() => parseChartCode(code), [code]);
+  const [showCode, setShowCode] = useState(false);
+
+  if (!spec || showCode) {
+    return (
+      <>
+        <CodeHeader
+          language="chart"
+          code={code}
+        />
+        <SyntaxHighlighter
+          language="json"
+          className={className}
+        >
+          {code}
+        </SyntaxHighlighter>
+        {spec && (
+          <button
+            type="button"
+            className="w-full cursor-pointer border-t border-zinc-700 py-1 text-xs text-zinc-400 hover:text-white"
+            onClick={() => setShowCode(false)}
+          >
+            Show chart
+          </button>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="bg-background text-foreground rounded-lg border p-4 font-sans">
+      <Chart spec={spec} />
+      <button
+        type="button"
+        className="text-muted-foreground hover:text-foreground mt-2 w-full cursor-pointer text-xs"
+        onClick={() => setShowCode(true)}
+      >
+        Show spec
+      </button>
+    </div>
+  );
+}
+
+// Renders `mermaid` and `dot` code blocks as diagrams, falling back to the
+// code while the block is streaming in or if it fails to parse
+function DiagramCodeBlock({
+  language,
+  code,
+  className,
+}: {
+  language: DiagramLanguage;
+  code: string;
+  className?: string;
+}) {
+  const diagram = useRenderedDiagram(language, code);
+  const [showCode, setShowCode] = useState(false);
+  const svg = diagram?.svg;
+
+  const onDownloadPng = async () => {
+    if (!svg) return;
+    try {
+      downloadBlob(await svgToPngBlob(svg), "diagram.png");
+    } catch (error) {
+      console.error("Failed to export diagram:", error);
+      toast.error("Failed to export diagram");
+    }
+  };
+
+  return (
+    <>
+      <CodeHeader
+        language={language}
+        code={code}
+      >
+        {svg && (
+          <>
+            <TooltipIconButton
+              tooltip={showCode ? "Show diagram" : "Show source"}
+              onClick={() => setShowCode((prev) => !prev)}
+            >
+              {showCode ? <WorkflowIcon /> : <CodeIcon />}
+            </TooltipIconButton>
+            <TooltipIconButton
+              tooltip="Download SVG"
+              onClick={() => downloadFile(svg, "diagram.svg", "image/svg+xml")}
+            >
+              <FileImageIcon />
+            </TooltipIconButton>
+            <TooltipIconButton
+              tooltip="Download PNG"
+              onClick={onDownloadPng}
+            >
+              <ImageDownIcon />
+            </TooltipIconButton>
+          </>
+        )}
+      </CodeHeader>
+      {svg && !showCode ? (
+        <div className="flex justify-center overflow-x-auto rounded-b-lg bg-white p-4">
+          {/* Rendered as an image so the SVG can't run scripts or links */}
+          <img
+            src={svgToDataUrl(svg)}
+            alt={`${language} diagram`}
+            className="h-auto max-w-full"
+          />
+        </div>
+      ) : (
+        <>
+          <SyntaxHighlighter
+            language={language}
+            className={className}
+          >
+            {code}
+          </SyntaxHighlighter>
+          {diagram?.error && (
+            <p className="border-t border-zinc-700 px-4 py-2 text-xs whitespace-pre-wrap text-zinc-400">
+              Couldn&apos;t render diagram: {diagram.error}
+            </p>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
 const defaultComponents: any = {
   h1: ({ className, ...props }: { className?: string }) => (
     <h1
@@ -264,10 +434,12 @@ const defaultComponents: any = {
   code: ({
     className,
     children,
+    node,
     ...props
   }: {
     className?: string;
     children: React.ReactNode;
+    node?: { data?: { meta?: string | null } };
   }) => {
     const match = /language-(\w+)/.exec(className || "");
 
@@ -275,12 +447,41 @@ const defaultComponents: any = {
       const language = match[1];
       const code = String(children).replace(/\n$/, "");
 
+      if (isDiagramLanguage(language)) {
+        return (
+          <DiagramCodeBlock
+            language={language}
+            code={code}
+            className={className}
+          />
+        );
+      }
+
+      if (language === "chart") {
+        return (
+          <ChartCodeBlock
+            code={code}
+            className={className}
+          />
+        );
+      }
+
       return (
         <>
           <CodeHeader
             language={language}
             code={code}
-          />
+          >
+            {isCodeArtifactLanguage(language) && (
+              <OpenCodeArtifactButton
+                artifact={getCodeArtifactVersion(
+                  language,
+                  code,
+                  node?.data?.meta ?? undefined,
+                )}
+              />
+            )}
+          </CodeHeader>
           <SyntaxHighlighter
             language={language}
             className={className}
@@ -1,107 +1,83 @@
 import { parsePartialJson } from "@langchain/core/output_parsers";
 import { useStreamContext } from "@/providers/Stream";
-import { AIMessage, Checkpoint, Message } from "@langchain/langgraph-sdk";
+import {
+  AIMessage,
+  Checkpoint,
+  Message,
+  ToolMessage,
+} from "@langchain/langgraph-sdk";
 import { getContentString } from "../utils";
 import { BranchSwitcher, CommandBar } from "./shared";
 import { MarkdownText } from "../markdown-text";
-import { LoadExternalComponent } from "@langchain/langgraph-sdk/react-ui";
+import {
+  LoadExternalComponent,
+  type UIMessage,
+} from "@langchain/langgraph-sdk/react-ui";
 import { cn } from "@/lib/utils";
-import { ToolExecutionAnimation } from "./tool-calls";
+import {
+  ToolCallsWithResults,
+  ToolExecutionAnimation,
+  ToolResult,
+} from "./tool-calls";
 import { MessageContentComplex } from "@langchain/core/messages";
 import { Fragment } from "react/jsx-runtime";
+import { useMemo, useState } from "react";
 import { isAgentInboxInterruptSchema } from "@/lib/agent-inbox-interrupt";
 import { ThreadView } from "../agent-inbox";
 import { GenericInterruptView } from "./generic-interrupt";
 import { useArtifact } from "../artifact";
+import { ArtifactVersionControls } from "../artifact-versions";
+import { getUIMessageVersions } from "@/lib/artifact-versions";
+import { useQueryState, parseAsBoolean } from "nuqs";
+import { DO_NOT_RENDER_ID_PREFIX } from "@/lib/ensure-tool-responses";
+import { isStoppedMessage } from "@/lib/stopped-messages";
+import { Button } from "@/components/ui/button";
+import { CircleStop, Play } from "lucide-react";
+import { StateMedia } from "../state-media";
+import { ResponseComparison } from "../response-comparison";
+import type { ResponsePreference } from "@/lib/response-comparison";
 
-// BrokerState interface to match the provided structure
-interface BrokerState {
-  messages?: any[];
-  image_prompt?: string;
-  image_url?: string;
-  base64_image?: string;
-  video_url?: string;
-  prompt?: string;
-  interaction_count?: number;
-  is_complete?: boolean;
-  validation_score?: number;
-  features?: Record<string, any>;
-}
-
-function BrokerStateMedia({ values }: { values: any }) {
-  const brokerState = values as BrokerState;
-
-  if (!brokerState) return null;
-
-  const imageUrl = brokerState.image_url;
-  const base64Image = brokerState.base64_image;
-  const videoUrl = brokerState.video_url;
+// Renders a UI message with the version of its props selected in its
+// artifact, so earlier versions of the artifact can be viewed
+function VersionedUIComponent({
+  ui,
+  thread,
+}: {
+  ui: UIMessage;
+  thread: ReturnType<typeof useStreamContext>;
+}) {
+  const artifact = useArtifact();
+  const { history, values } = thread;
+  const versions = useMemo(
+    () => getUIMessageVersions(ui.id, history, values),
+    [ui.id, history, values],
+  );
+  // Follows the latest version until an earlier one is selected
+  const [selectedVersionId, setSelectedVersionId] = useState<string>();
+  const selectedIndex = versions.findIndex((v) => v.id === selectedVersionId);
+  const index = selectedIndex === -1 ? versions.length - 1 : selectedIndex;
+  const message =
+    selectedIndex === -1 ? ui : (versions[selectedIndex].value as UIMessage);
 
   return (
-    <div className="mt-2 flex flex-col gap-2">
-      {/* Render image from URL */}
-      {imageUrl && (
-        <div className="max-w-md">
-          <img
-            src={imageUrl}
-            alt={brokerState.image_prompt || "Generated image"}
-            className="w-full rounded-lg border border-gray-200 shadow-sm"
-            loading="lazy"
-            onError={(e) => {
-              const target = e.target as HTMLImageElement;
-              target.style.display = "none";
-            }}
-          />
-          {brokerState.image_prompt && (
-            <p className="mt-1 text-sm text-gray-600 italic">
-              {brokerState.image_prompt}
-            </p>
-          )}
-        </div>
-      )}
-
-      {/* Render base64 image */}
-      {base64Image && !imageUrl && (
-        <div className="max-w-md">
-          <img
-            src={
-              base64Image.startsWith("data:")
-                ? base64Image
-                : `data:image/png;base64,${base64Image}`
-            }
-            alt={brokerState.image_prompt || "Generated image"}
-            className="w-full rounded-lg border border-gray-200 shadow-sm"
-            loading="lazy"
-            onError={(e) => {
-              const target = e.target as HTMLImageElement;
-              target.style.display = "none";
-            }}
-          />
-          {brokerState.image_prompt && (
-            <p className="mt-1 text-sm text-gray-600 italic">
-              {brokerState.image_prompt}
-            </p>
-          )}
-        </div>
-      )}
-
-      {/* Render video */}
-      {videoUrl && (
-        <div className="max-w-md">
-          <video
-            src={videoUrl}
-            controls
-            className="w-full rounded-lg border border-gray-200 shadow-sm"
-            onError={(e) => {
-              const target = e.target as HTMLVideoElement;
-              target.style.display = "none";
-            }}
-          >
-            Your browser does not support the video tag.
-          </video>
-        </div>
-      )}
-    </div>
+    <>
+      <LoadExternalComponent
+        stream={thread}
+        message={message}
+        meta={{ ui: message, artifact }}
+      />
+      <ArtifactVersionControls
+        slotId={artifact[1].id}
+        artifactId={ui.id}
+        versions={versions}
+        index={index}
+        onSelect={(i) =>
+          setSelectedVersionId(
+            i === versions.length - 1 ? undefined : versions[i].id,
+          )
+        }
+      />
+    </>
   );
 }
 
@@ -112,7 +88,6 @@ function CustomComponent({
   message: Message;
   thread: ReturnType<typeof useStreamContext>;
 }) {
-  const artifact = useArtifact();
   const { values } = useStreamContext();
   const customComponents = values.ui?.filter(
     (ui) => ui.metadata?.message_id === message.id,
@@ -122,11 +97,10 @@ function CustomComponent({
   return (
     <Fragment key={message.id}>
       {customComponents.map((customComponent) => (
-        <LoadExternalComponent
+        <VersionedUIComponent
           key={customComponent.id}
-          stream={thread}
-          message={customComponent}
-          meta={{ ui: customComponent, artifact }}
+          ui={customComponent}
+          thread={thread}
         />
       ))}
     </Fragment>
@@ -187,15 +161,37 @@ export function AssistantMessage({
   message,
   isLoading,
   handleRegenerate,
+  handleContinue,
+  handlePreferResponse,
+  readOnly = false,
 }: {
   message: Message | undefined;
   isLoading: boolean;
-  handleRegenerate: (parentCheckpoint: Checkpoint | null | undefined) => void;
+  handleRegenerate?: (parentCheckpoint: Checkpoint | null | undefined) => void;
+  /**
+   * Asks the model to continue a stopped answer.
+   */
+  handleContinue?: () => void;
+  /**
+   * Records the response preferred when comparing regenerated responses.
+   */
+  handlePreferResponse?: (
+    forkCheckpointId: string,
+    preference: ResponsePreference,
+  ) => Promise<boolean>;
+  /**
+   * Hides interrupts and regeneration, e.g. when viewing a shared thread.
+   */
+  readOnly?: boolean;
 }) {
   const content = message?.content ?? [];
   const contentString = getContentString(content);
 
   const thread = useStreamContext();
+  const [hideToolCalls] = useQueryState(
+    "hideToolCalls",
+    parseAsBoolean.withDefault(false),
+  );
   const isLastMessage =
     thread.messages[thread.messages.length - 1].id === message?.id;
   const hasNoAIOrToolMessages = !thread.messages.find(
@@ -216,17 +212,41 @@ export function AssistantMessage({
     message.tool_calls.length > 0;
   const hasAnthropicToolCalls = !!anthropicStreamedToolCalls?.length;
   const isToolResult = message?.type === "tool";
+  const isStopped =
+    isStoppedMessage(message) ||
+    (!!message?.id && thread.stoppedMessageIds.has(message.id));
+
+  // Results produced for this thread's tool calls, excluding the placeholder
+  // responses added by `ensureToolCallsHaveResponses`.
+  const toolResults = thread.messages.filter(
+    (m): m is ToolMessage =>
+      m.type === "tool" && !m.id?.startsWith(DO_NOT_RENDER_ID_PREFIX),
+  );
+  // A tool message is rendered alongside the AI message that requested it,
+  // so only render it standalone if no AI message holds the matching call.
+  const isOrphanToolResult =
+    isToolResult &&
+    !thread.messages.some(
+      (m) =>
+        m.type === "ai" &&
+        m.tool_calls?.some((tc) => tc.id === message.tool_call_id),
+    );
 
   return (
     <div className="group mr-auto flex items-start gap-2">
       <div className="flex flex-col gap-2">
         {isToolResult ? (
           <>
-            <Interrupt
-              interruptValue={threadInterrupt?.value}
-              isLastMessage={isLastMessage}
-              hasNoAIOrToolMessages={hasNoAIOrToolMessages}
-            />
+            {!hideToolCalls && isOrphanToolResult && (
+              <ToolResult message={message} />
+            )}
+            {!readOnly && (
+              <Interrupt
+                interruptValue={threadInterrupt?.value}
+                isLastMessage={isLastMessage}
+                hasNoAIOrToolMessages={hasNoAIOrToolMessages}
+              />
+            )}
           </>
         ) : (
           <>
@@ -236,6 +256,25 @@ export function AssistantMessage({
               </div>
             )}
 
+            {isStopped && (
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground flex items-center gap-1 rounded-md border px-2 py-0.5 text-xs">
+                  <CircleStop className="size-3.5" />
+                  Stopped
+                </span>
+                {!readOnly && handleContinue && isLastMessage && !isLoading && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleContinue}
+                  >
+                    <Play />
+                    Continue
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Show tool execution animation for executing tools */}
             {isLoading &&
               isLastMessage &&
@@ -259,6 +298,16 @@ export function AssistantMessage({
                 </div>
               )}
 
+            {/* Show finished tool calls paired with their results */}
+            {!(isLoading && isLastMessage) && !hideToolCalls && (
+              <ToolCallsWithResults
+                toolCalls={
+                  hasToolCalls ? message.tool_calls : anthropicStreamedToolCalls
+                }
+                toolResults={toolResults}
+              />
+            )}
+
             {message && (
               <CustomComponent
                 message={message}
@@ -266,13 +315,14 @@ export function AssistantMessage({
               />
             )}
 
-            {/* Render BrokerState media content only for the last message */}
-            {isLastMessage && <BrokerStateMedia values={thread.values} />}
-            <Interrupt
-              interruptValue={threadInterrupt?.value}
-              isLastMessage={isLastMessage}
-              hasNoAIOrToolMessages={hasNoAIOrToolMessages}
-            />
+            {message && <StateMedia message={message} />}
+            {!readOnly && (
+              <Interrupt
+                interruptValue={threadInterrupt?.value}
+                isLastMessage={isLastMessage}
+                hasNoAIOrToolMessages={hasNoAIOrToolMessages}
+              />
+            )}
             <div
               className={cn(
                 "mr-auto flex items-center gap-2 transition-opacity",
@@ -285,11 +335,20 @@ export function AssistantMessage({
                 onSelect={(branch) => thread.setBranch(branch)}
                 isLoading={isLoading}
               />
+              <ResponseComparison
+                branch={meta?.branch}
+                branchOptions={meta?.branchOptions}
+                onPrefer={readOnly ? undefined : handlePreferResponse}
+              />
               <CommandBar
                 content={contentString}
                 isLoading={isLoading}
                 isAiMessage={true}
-                handleRegenerate={() => handleRegenerate(parentCheckpoint)}
+                handleRegenerate={
+                  !readOnly && handleRegenerate
+                    ? () => handleRegenerate(parentCheckpoint)
+                    : undefined
+                }
               />
             </div>
           </>
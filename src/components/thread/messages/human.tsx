@@ -6,7 +6,7 @@ import { cn } from "@/lib/utils";
 import { Textarea } from "@/components/ui/textarea";
 import { BranchSwitcher, CommandBar } from "./shared";
 import { MultimodalPreview } from "@/components/thread/MultimodalPreview";
-import { isBase64ContentBlock } from "@/lib/multimodal-utils";
+import { isAttachmentContentBlock } from "@/lib/multimodal-utils";
 
 function EditableContent({
   value,
@@ -37,9 +37,14 @@ function EditableContent({
 export function HumanMessage({
   message,
   isLoading,
+  readOnly = false,
 }: {
   message: Message;
   isLoading: boolean;
+  /**
+   * Hides editing, e.g. when viewing a shared thread.
+   */
+  readOnly?: boolean;
 }) {
   const thread = useStreamContext();
   const meta = thread.getMessagesMetadata(message);
@@ -92,7 +97,7 @@ export function HumanMessage({
               <div className="flex flex-wrap items-end justify-end gap-2">
                 {message.content.reduce<React.ReactNode[]>(
                   (acc, block, idx) => {
-                    if (isBase64ContentBlock(block)) {
+                    if (isAttachmentContentBlock(block)) {
                       acc.push(
                         <MultimodalPreview
                           key={idx}
@@ -129,19 +134,21 @@ export function HumanMessage({
             onSelect={(branch) => thread.setBranch(branch)}
             isLoading={isLoading}
           />
-          <CommandBar
-            isLoading={isLoading}
-            content={contentString}
-            isEditing={isEditing}
-            setIsEditing={(c) => {
-              if (c) {
-                setValue(contentString);
-              }
-              setIsEditing(c);
-            }}
-            handleSubmitEdit={handleSubmitEdit}
-            isHumanMessage={true}
-          />
+          {!readOnly && (
+            <CommandBar
+              isLoading={isLoading}
+              content={contentString}
+              isEditing={isEditing}
+              setIsEditing={(c) => {
+                if (c) {
+                  setValue(contentString);
+                }
+                setIsEditing(c);
+              }}
+              handleSubmitEdit={handleSubmitEdit}
+              isHumanMessage={true}
+            />
+          )}
         </div>
       </div>
     </div>
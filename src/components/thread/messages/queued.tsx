@@ -0,0 +1,55 @@
+import { Clock, X } from "lucide-react";
+import { getContentString } from "../utils";
+import { MultimodalPreview } from "../MultimodalPreview";
+import { isAttachmentContentBlock } from "@/lib/multimodal-utils";
+import type { QueuedMessage } from "@/lib/queued-messages";
+import { TooltipIconButton } from "../tooltip-icon-button";
+
+/**
+ * A message waiting to be sent once the current run finishes.
+ */
+export function QueuedHumanMessage({
+  message,
+  onRemove,
+}: {
+  message: QueuedMessage;
+  onRemove: () => void;
+}) {
+  const contentString = getContentString(message.content);
+  const attachments = Array.isArray(message.content)
+    ? message.content.flatMap((block) =>
+        isAttachmentContentBlock(block) ? [block] : [],
+      )
+    : [];
+
+  return (
+    <div className="ml-auto flex flex-col items-end gap-1 opacity-70">
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap items-end justify-end gap-2">
+          {attachments.map((block, idx) => (
+            <MultimodalPreview
+              key={idx}
+              block={block}
+              size="sm"
+            />
+          ))}
+        </div>
+      )}
+      {contentString && (
+        <p className="bg-muted ml-auto w-fit rounded-3xl border border-dashed px-4 py-2 text-right whitespace-pre-wrap">
+          {contentString}
+        </p>
+      )}
+      <div className="text-muted-foreground flex items-center gap-1 text-xs">
+        <Clock className="size-3.5" />
+        Queued
+        <TooltipIconButton
+          tooltip="Remove from queue"
+          onClick={onRemove}
+        >
+          <X />
+        </TooltipIconButton>
+      </div>
+    </div>
+  );
+}
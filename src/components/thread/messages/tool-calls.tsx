@@ -1,7 +1,18 @@
 import { AIMessage, ToolMessage } from "@langchain/langgraph-sdk";
 import { useState, useEffect } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import {
+  BarChart3,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  ChevronUp,
+  CircleDashed,
+  Loader2,
+} from "lucide-react";
+import { getUniformRecords } from "@/lib/charts";
+import { cn } from "@/lib/utils";
+import { RecordsView } from "../records-view";
 
 function isComplexValue(value: any): boolean {
   return Array.isArray(value) || (typeof value === "object" && value !== null);
@@ -126,6 +137,7 @@ export function ToolCalls({
 
 export function ToolResult({ message }: { message: ToolMessage }) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [isVisualized, setIsVisualized] = useState(false);
 
   let parsedContent: any;
   let isJsonContent = false;
@@ -140,6 +152,8 @@ export function ToolResult({ message }: { message: ToolMessage }) {
     parsedContent = message.content;
   }
 
+  const records = isJsonContent ? getUniformRecords(parsedContent) : undefined;
+
   const contentStr = isJsonContent
     ? JSON.stringify(parsedContent, null, 2)
     : String(message.content);
@@ -167,84 +181,201 @@ export function ToolResult({ message }: { message: ToolMessage }) {
             ) : (
               <h3 className="font-medium text-gray-900">Tool Result</h3>
             )}
-            {message.tool_call_id && (
-              <code className="ml-2 rounded bg-gray-100 px-2 py-1 text-sm">
-                {message.tool_call_id}
-              </code>
-            )}
+            <div className="flex items-center gap-2">
+              {records && (
+                <button
+                  type="button"
+                  className={cn(
+                    "flex cursor-pointer items-center gap-1 rounded px-2 py-1 text-sm",
+                    isVisualized
+                      ? "bg-gray-900 text-white"
+                      : "text-gray-600 hover:bg-gray-100",
+                  )}
+                  onClick={() => setIsVisualized((prev) => !prev)}
+                  aria-pressed={isVisualized}
+                >
+                  <BarChart3 className="size-4" />
+                  Visualize
+                </button>
+              )}
+              {message.tool_call_id && (
+                <code className="ml-2 rounded bg-gray-100 px-2 py-1 text-sm">
+                  {message.tool_call_id}
+                </code>
+              )}
+            </div>
           </div>
         </div>
+        {records && isVisualized ? (
+          <div className="bg-gray-100 p-3">
+            <RecordsView
+              records={records}
+              fileName={message.name ?? "tool-result"}
+            />
+          </div>
+        ) : (
+          <motion.div
+            className="min-w-full bg-gray-100"
+            initial={false}
+            animate={{ height: "auto" }}
+            transition={{ duration: 0.3 }}
+          >
+            <div className="p-3">
+              <AnimatePresence
+                mode="wait"
+                initial={false}
+              >
+                <motion.div
+                  key={isExpanded ? "expanded" : "collapsed"}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -20 }}
+                  transition={{ duration: 0.2 }}
+                >
+                  {isJsonContent ? (
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <tbody className="divide-y divide-gray-200">
+                        {(Array.isArray(parsedContent)
+                          ? isExpanded
+                            ? parsedContent
+                            : parsedContent.slice(0, 5)
+                          : Object.entries(parsedContent)
+                        ).map((item, argIdx) => {
+                          const [key, value] = Array.isArray(parsedContent)
+                            ? [argIdx, item]
+                            : [item[0], item[1]];
+                          return (
+                            <tr key={argIdx}>
+                              <td className="px-4 py-2 text-sm font-medium whitespace-nowrap text-gray-900">
+                                {key}
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-500">
+                                {isComplexValue(value) ? (
+                                  <code className="rounded bg-gray-50 px-2 py-1 font-mono text-sm break-all">
+                                    {JSON.stringify(value, null, 2)}
+                                  </code>
+                                ) : (
+                                  String(value)
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <code className="block text-sm">{displayedContent}</code>
+                  )}
+                </motion.div>
+              </AnimatePresence>
+            </div>
+            {((shouldTruncate && !isJsonContent) ||
+              (isJsonContent &&
+                Array.isArray(parsedContent) &&
+                parsedContent.length > 5)) && (
+              <motion.button
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="flex w-full cursor-pointer items-center justify-center border-t-[1px] border-gray-200 py-2 text-gray-500 transition-all duration-200 ease-in-out hover:bg-gray-50 hover:text-gray-600"
+                initial={{ scale: 1 }}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+              >
+                {isExpanded ? <ChevronUp /> : <ChevronDown />}
+              </motion.button>
+            )}
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type ToolCall = NonNullable<AIMessage["tool_calls"]>[number];
+
+function ToolCallWithResult({
+  toolCall,
+  result,
+}: {
+  toolCall: ToolCall;
+  result: ToolMessage | undefined;
+}) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-gray-200">
+      <button
+        type="button"
+        onClick={() => setIsOpen((prev) => !prev)}
+        className="flex w-full cursor-pointer items-center gap-2 bg-gray-50 px-4 py-2 text-left hover:bg-gray-100"
+        aria-expanded={isOpen}
+      >
         <motion.div
-          className="min-w-full bg-gray-100"
           initial={false}
-          animate={{ height: "auto" }}
-          transition={{ duration: 0.3 }}
+          animate={{ rotate: isOpen ? 90 : 0 }}
+          transition={{ duration: 0.2 }}
         >
-          <div className="p-3">
-            <AnimatePresence
-              mode="wait"
-              initial={false}
-            >
-              <motion.div
-                key={isExpanded ? "expanded" : "collapsed"}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: -20 }}
-                transition={{ duration: 0.2 }}
-              >
-                {isJsonContent ? (
-                  <table className="min-w-full divide-y divide-gray-200">
-                    <tbody className="divide-y divide-gray-200">
-                      {(Array.isArray(parsedContent)
-                        ? isExpanded
-                          ? parsedContent
-                          : parsedContent.slice(0, 5)
-                        : Object.entries(parsedContent)
-                      ).map((item, argIdx) => {
-                        const [key, value] = Array.isArray(parsedContent)
-                          ? [argIdx, item]
-                          : [item[0], item[1]];
-                        return (
-                          <tr key={argIdx}>
-                            <td className="px-4 py-2 text-sm font-medium whitespace-nowrap text-gray-900">
-                              {key}
-                            </td>
-                            <td className="px-4 py-2 text-sm text-gray-500">
-                              {isComplexValue(value) ? (
-                                <code className="rounded bg-gray-50 px-2 py-1 font-mono text-sm break-all">
-                                  {JSON.stringify(value, null, 2)}
-                                </code>
-                              ) : (
-                                String(value)
-                              )}
-                            </td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                ) : (
-                  <code className="block text-sm">{displayedContent}</code>
-                )}
-              </motion.div>
-            </AnimatePresence>
-          </div>
-          {((shouldTruncate && !isJsonContent) ||
-            (isJsonContent &&
-              Array.isArray(parsedContent) &&
-              parsedContent.length > 5)) && (
-            <motion.button
-              onClick={() => setIsExpanded(!isExpanded)}
-              className="flex w-full cursor-pointer items-center justify-center border-t-[1px] border-gray-200 py-2 text-gray-500 transition-all duration-200 ease-in-out hover:bg-gray-50 hover:text-gray-600"
-              initial={{ scale: 1 }}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-            >
-              {isExpanded ? <ChevronUp /> : <ChevronDown />}
-            </motion.button>
-          )}
+          <ChevronRight className="h-4 w-4 text-gray-500" />
         </motion.div>
-      </div>
+        <span className="font-medium text-gray-900">{toolCall.name}</span>
+        {result ? (
+          <span className="ml-auto flex items-center gap-1 text-xs text-green-700">
+            <CheckCircle2 className="h-3.5 w-3.5" />
+            Completed
+          </span>
+        ) : (
+          <span className="ml-auto flex items-center gap-1 text-xs text-gray-500">
+            <CircleDashed className="h-3.5 w-3.5" />
+            No result
+          </span>
+        )}
+      </button>
+      <AnimatePresence initial={false}>
+        {isOpen && (
+          <motion.div
+            key="tool-call-body"
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2, ease: "easeInOut" }}
+            style={{ overflow: "hidden" }}
+          >
+            <div className="flex flex-col gap-2 p-2">
+              <ToolCalls toolCalls={[toolCall]} />
+              {result && <ToolResult message={result} />}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+/**
+ * Renders finished tool calls, each paired with the `ToolMessage` whose
+ * `tool_call_id` matches the call's id. Every call is collapsed by default.
+ */
+export function ToolCallsWithResults({
+  toolCalls,
+  toolResults,
+}: {
+  toolCalls: AIMessage["tool_calls"];
+  toolResults: ToolMessage[];
+}) {
+  if (!toolCalls || toolCalls.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      {toolCalls.map((tc, idx) => (
+        <ToolCallWithResult
+          key={tc.id ?? `tool-call-${idx}`}
+          toolCall={tc}
+          result={
+            tc.id
+              ? toolResults.find((r) => r.tool_call_id === tc.id)
+              : undefined
+          }
+        />
+      ))}
     </div>
   );
 }
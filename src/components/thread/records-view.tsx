@@ -0,0 +1,138 @@
+import { useMemo, useState } from "react";
+import { Download } from "lucide-react";
+import {
+  CHART_TYPES,
+  parseChartSpec,
+  recordsToCsv,
+  type ChartRecord,
+  type ChartType,
+} from "@/lib/charts";
+import { downloadFile } from "@/lib/export-thread";
+import { cn } from "@/lib/utils";
+import { Chart } from "./chart";
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function SegmentedControl<T extends string>({
+  options,
+  value,
+  onChange,
+  disabled = [],
+}: {
+  options: readonly T[];
+  value: T;
+  onChange: (value: T) => void;
+  disabled?: T[];
+}) {
+  return (
+    <div className="flex rounded-md border bg-white p-0.5">
+      {options.map((option) => (
+        <button
+          key={option}
+          type="button"
+          disabled={disabled.includes(option)}
+          className={cn(
+            "cursor-pointer rounded px-2 py-0.5 text-xs capitalize disabled:cursor-not-allowed disabled:opacity-40",
+            option === value
+              ? "bg-gray-900 text-white"
+              : "text-gray-600 hover:bg-gray-100",
+          )}
+          onClick={() => onChange(option)}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Shows records with the same keys, e.g. rows returned by a tool, as a table
+ * or a chart, and downloads them as CSV.
+ */
+export function RecordsView({
+  records,
+  fileName,
+}: {
+  records: ChartRecord[];
+  /** Name of the downloaded CSV file, without the extension */
+  fileName: string;
+}) {
+  const [view, setView] = useState<"table" | "chart">("table");
+  const [chartType, setChartType] = useState<ChartType>("line");
+  const spec = useMemo(
+    () => parseChartSpec({ data: records, type: chartType }),
+    [records, chartType],
+  );
+  const keys = Object.keys(records[0]);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <SegmentedControl
+          options={["table", "chart"] as const}
+          value={view}
+          onChange={setView}
+          // Records without numeric values can't be plotted
+          disabled={spec ? [] : ["chart"]}
+        />
+        {view === "chart" && (
+          <SegmentedControl
+            options={CHART_TYPES}
+            value={chartType}
+            onChange={setChartType}
+          />
+        )}
+        <button
+          type="button"
+          className="ml-auto flex cursor-pointer items-center gap-1 text-xs text-gray-600 hover:text-gray-900"
+          onClick={() =>
+            downloadFile(recordsToCsv(records), `${fileName}.csv`, "text/csv")
+          }
+        >
+          <Download className="size-3.5" />
+          CSV
+        </button>
+      </div>
+      {view === "chart" && spec ? (
+        <div className="rounded-md bg-white p-2">
+          <Chart spec={spec} />
+        </div>
+      ) : (
+        <div className="max-h-96 overflow-auto rounded-md border bg-white">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="sticky top-0 bg-gray-50">
+              <tr>
+                {keys.map((key) => (
+                  <th
+                    key={key}
+                    className="px-3 py-2 text-left font-medium whitespace-nowrap text-gray-900"
+                  >
+                    {key}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {records.map((record, i) => (
+                <tr key={i}>
+                  {keys.map((key) => (
+                    <td
+                      key={key}
+                      className="px-3 py-2 text-gray-600"
+                    >
+                      {formatCell(record[key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
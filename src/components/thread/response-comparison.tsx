@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { Columns2, ThumbsUp } from "lucide-react";
+import { useQueryState } from "nuqs";
+import { toast } from "sonner";
+import { useStreamContext } from "@/providers/Stream";
+import {
+  getBranchResponses,
+  getForkCheckpointId,
+  getResponsePreferences,
+  type BranchResponse,
+  type ResponsePreference,
+} from "@/lib/response-comparison";
+import { getWordDiff } from "@/lib/text-diff";
+import { cn } from "@/lib/utils";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+function ResponseText({
+  response,
+  baseline,
+}: {
+  response: BranchResponse;
+  baseline?: BranchResponse;
+}) {
+  if (!response.text) {
+    return <p className="text-muted-foreground italic">No text</p>;
+  }
+  if (!baseline || baseline === response) {
+    return <p className="whitespace-pre-wrap">{response.text}</p>;
+  }
+  return (
+    <p className="whitespace-pre-wrap">
+      {getWordDiff(baseline.text, response.text).map((part, i) => (
+        <span
+          key={i}
+          className={cn(
+            part.added &&
+              "bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200",
+            part.removed &&
+              "bg-red-100 text-red-900 line-through dark:bg-red-950 dark:text-red-200",
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+/**
+ * Compares the sibling responses of a regenerated message side by side, with
+ * the words that differ from a baseline response highlighted. Marking a
+ * response as preferred records it in the thread's metadata.
+ */
+export function ResponseComparison({
+  branch,
+  branchOptions,
+  onPrefer,
+}: {
+  branch: string | undefined;
+  branchOptions: string[] | undefined;
+  /** Saves the preference, or omitted when preferences can't be recorded */
+  onPrefer?: (
+    forkCheckpointId: string,
+    preference: ResponsePreference,
+  ) => Promise<boolean>;
+}) {
+  const [threadId] = useQueryState("threadId");
+  const stream = useStreamContext();
+  const [open, setOpen] = useState(false);
+  const [baselineIndex, setBaselineIndex] = useState(0);
+  const [preferredBranch, setPreferredBranch] = useState<string>();
+  const [saving, setSaving] = useState(false);
+
+  const responses = useMemo(
+    () =>
+      open && branchOptions
+        ? getBranchResponses(stream.experimental_branchTree, branchOptions)
+        : [],
+    [open, branchOptions, stream.experimental_branchTree],
+  );
+  const forkCheckpointId = branch ? getForkCheckpointId(branch) : undefined;
+
+  useEffect(() => {
+    if (!open || !threadId || !forkCheckpointId) return;
+
+    let cancelled = false;
+    stream.client.threads
+      .get(threadId)
+      .then((thread) => {
+        if (cancelled) return;
+        setPreferredBranch(
+          getResponsePreferences(thread.metadata)[forkCheckpointId]?.branch,
+        );
+      })
+      .catch((e) => {
+        console.error("Failed to fetch preferred response:", e);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [stream.client, threadId, open, forkCheckpointId]);
+
+  if (!branch || !branchOptions || branchOptions.length < 2) return null;
+  const baseline = responses[Math.min(baselineIndex, responses.length - 1)];
+
+  const handlePrefer = async (response: BranchResponse) => {
+    if (!onPrefer || !forkCheckpointId) return;
+    setSaving(true);
+    const saved = await onPrefer(forkCheckpointId, {
+      branch: response.branch,
+      message_id: response.messageId,
+      compared: responses.map((r) => r.branch),
+      created_at: new Date().toISOString(),
+    });
+    setSaving(false);
+    if (saved) {
+      setPreferredBranch(response.branch);
+      toast.success("Preferred response saved");
+    }
+  };
+
+  return (
+    <>
+      <TooltipIconButton
+        tooltip="Compare responses"
+        variant="ghost"
+        disabled={stream.isLoading}
+        onClick={() => setOpen(true)}
+      >
+        <Columns2 />
+      </TooltipIconButton>
+      <Sheet
+        open={open}
+        onOpenChange={setOpen}
+      >
+        <SheetContent className="w-full sm:max-w-5xl">
+          <SheetHeader>
+            <SheetTitle>Compare responses</SheetTitle>
+            <SheetDescription>
+              Words added or removed relative to the baseline response are
+              highlighted.
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex items-center gap-2 px-4 text-sm">
+            <label htmlFor="response-comparison-baseline">Baseline</label>
+            <select
+              id="response-comparison-baseline"
+              className="rounded-md border px-1 py-0.5"
+              value={baselineIndex}
+              onChange={(e) => setBaselineIndex(Number(e.target.value))}
+            >
+              {responses.map((response, i) => (
+                <option
+                  key={response.branch}
+                  value={i}
+                >
+                  Response {i + 1}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex min-h-0 flex-1 gap-4 overflow-x-auto px-4 pb-4">
+            {responses.map((response, i) => {
+              const isCurrent = response.branch === branch;
+              const isPreferred = response.branch === preferredBranch;
+              return (
+                <div
+                  key={response.branch}
+                  className={cn(
+                    "flex min-w-72 flex-1 flex-col rounded-md border",
+                    isPreferred && "border-primary",
+                  )}
+                >
+                  <div className="flex items-center gap-2 border-b px-3 py-2 text-sm">
+                    <span className="font-medium">Response {i + 1}</span>
+                    {response === baseline && (
+                      <span className="text-muted-foreground text-xs">
+                        Baseline
+                      </span>
+                    )}
+                    {isCurrent && (
+                      <span className="text-primary text-xs">Viewing</span>
+                    )}
+                    <div className="ml-auto flex items-center gap-1">
+                      {!isCurrent && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            stream.setBranch(response.branch);
+                            setOpen(false);
+                          }}
+                        >
+                          View
+                        </Button>
+                      )}
+                      {onPrefer && (
+                        <Button
+                          variant={isPreferred ? "default" : "outline"}
+                          size="sm"
+                          disabled={saving || isPreferred}
+                          onClick={() => handlePrefer(response)}
+                        >
+                          <ThumbsUp />
+                          {isPreferred ? "Preferred" : "Prefer"}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="min-h-0 flex-1 overflow-y-auto px-3 py-2 text-sm">
+                    <ResponseText
+                      response={response}
+                      baseline={baseline}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  );
+}
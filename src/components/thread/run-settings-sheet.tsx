@@ -0,0 +1,103 @@
+import { useMemo } from "react";
+import { LoaderCircle, SlidersHorizontal } from "lucide-react";
+import { useStreamContext } from "@/providers/Stream";
+import { useAssistantSchemas } from "@/hooks/use-assistant-schemas";
+import {
+  getConfigurableSchema,
+  getSchemaFields,
+  type JsonSchema,
+} from "@/lib/json-schema";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { TooltipIconButton } from "./tooltip-icon-button";
+import { SchemaForm } from "./schema-form";
+
+// Set by the app or the server rather than the user
+const RESERVED_CONFIGURABLE_KEYS = [
+  "user_id",
+  "thread_id",
+  "checkpoint_id",
+  "checkpoint_ns",
+];
+
+/**
+ * Drawer for the configurable parameters in the assistant's config schema,
+ * which are sent with every run.
+ */
+export function RunSettingsSheet() {
+  const { runConfig, setRunConfig } = useStreamContext();
+  const { schemas, loading } = useAssistantSchemas();
+
+  const fields = useMemo(() => {
+    const schema = (schemas?.config_schema ?? {}) as JsonSchema;
+    return getSchemaFields(getConfigurableSchema(schema), schema).filter(
+      (field) => !RESERVED_CONFIGURABLE_KEYS.includes(field.name),
+    );
+  }, [schemas]);
+
+  const changedCount = Object.keys(runConfig).length;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <TooltipIconButton
+          tooltip={
+            changedCount > 0
+              ? `Run settings (${changedCount} changed)`
+              : "Run settings"
+          }
+          className="relative"
+        >
+          <SlidersHorizontal className="size-5" />
+          {changedCount > 0 && (
+            <span className="bg-primary absolute top-1.5 right-1.5 size-2 rounded-full" />
+          )}
+        </TooltipIconButton>
+      </SheetTrigger>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Run settings</SheetTitle>
+          <SheetDescription>
+            Sent with every run of this assistant, and saved in this browser.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex-1 overflow-y-auto px-4">
+          {loading ? (
+            <div className="text-muted-foreground flex items-center gap-2 text-sm">
+              <LoaderCircle className="size-4 animate-spin" />
+              Loading settings...
+            </div>
+          ) : fields.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              This assistant has no configurable settings.
+            </p>
+          ) : (
+            <SchemaForm
+              fields={fields}
+              values={runConfig}
+              onChange={setRunConfig}
+              idPrefix="run-settings"
+            />
+          )}
+        </div>
+        <SheetFooter>
+          <Button
+            variant="outline"
+            disabled={changedCount === 0}
+            onClick={() => setRunConfig({})}
+          >
+            Reset to defaults
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import type { SchemaField } from "@/lib/json-schema";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { cn } from "@/lib/utils";
+
+export type SchemaFormValues = Record<string, unknown>;
+
+const selectClassName =
+  "border-input focus-visible:border-ring focus-visible:ring-ring/50 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs outline-none focus-visible:ring-[3px]";
+
+// Edited as one item per line. The text is kept while editing, so blank
+// lines don't vanish as they're typed.
+function ListFieldInput({
+  id,
+  value,
+  onChange,
+}: {
+  id: string;
+  value: unknown;
+  onChange: (value: string[] | undefined) => void;
+}) {
+  const [text, setText] = useState(() =>
+    Array.isArray(value) ? value.join("\n") : "",
+  );
+  useEffect(() => {
+    if (value === undefined) setText("");
+  }, [value]);
+
+  return (
+    <Textarea
+      id={id}
+      value={text}
+      placeholder="One item per line"
+      onChange={(e) => {
+        setText(e.target.value);
+        const items = e.target.value
+          .split("\n")
+          .map((line) => line.trim())
+          .filter(Boolean);
+        onChange(items.length > 0 ? items : undefined);
+      }}
+    />
+  );
+}
+
+function SchemaFieldInput({
+  field,
+  id,
+  value,
+  onChange,
+}: {
+  field: SchemaField;
+  id: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) {
+  switch (field.kind) {
+    case "boolean":
+      return (
+        <Switch
+          id={id}
+          checked={Boolean(value ?? field.default)}
+          onCheckedChange={onChange}
+        />
+      );
+    case "enum":
+      return (
+        <select
+          id={id}
+          className={selectClassName}
+          value={String(value ?? field.default ?? "")}
+          onChange={(e) =>
+            onChange(
+              field.options?.find((o) => String(o) === e.target.value) ??
+                undefined,
+            )
+          }
+        >
+          {field.default === undefined && <option value="">Not set</option>}
+          {field.options?.map((option) => (
+            <option
+              key={String(option)}
+              value={String(option)}
+            >
+              {String(option)}
+            </option>
+          ))}
+        </select>
+      );
+    case "list":
+      return (
+        <ListFieldInput
+          id={id}
+          value={value}
+          onChange={onChange}
+        />
+      );
+    case "number":
+    case "integer":
+      return (
+        <Input
+          id={id}
+          type="number"
+          step={field.kind === "integer" ? 1 : "any"}
+          min={field.minimum}
+          max={field.maximum}
+          value={typeof value === "number" ? value : ""}
+          placeholder={
+            field.default !== undefined && field.default !== null
+              ? String(field.default)
+              : undefined
+          }
+          onChange={(e) =>
+            onChange(e.target.value === "" ? undefined : Number(e.target.value))
+          }
+        />
+      );
+    default:
+      return (
+        <Input
+          id={id}
+          value={typeof value === "string" ? value : ""}
+          placeholder={
+            typeof field.default === "string" ? field.default : undefined
+          }
+          onChange={(e) => onChange(e.target.value || undefined)}
+        />
+      );
+  }
+}
+
+/**
+ * Form for the fields of a JSON schema. Fields left empty are `undefined` in
+ * `values`, so the schema's defaults apply.
+ */
+export function SchemaForm({
+  fields,
+  values,
+  onChange,
+  idPrefix,
+  className,
+}: {
+  fields: SchemaField[];
+  values: SchemaFormValues;
+  onChange: (values: SchemaFormValues) => void;
+  /** Prefixes input IDs, to keep them unique when several forms are shown */
+  idPrefix: string;
+  className?: string;
+}) {
+  return (
+    <div className={cn("flex flex-col gap-5", className)}>
+      {fields.map((field) => {
+        const id = `${idPrefix}-${field.name}`;
+        const input = (
+          <SchemaFieldInput
+            field={field}
+            id={id}
+            value={values[field.name]}
+            onChange={(value) => {
+              const { [field.name]: _previous, ...rest } = values;
+              onChange(
+                value === undefined ? rest : { ...rest, [field.name]: value },
+              );
+            }}
+          />
+        );
+        return (
+          <div
+            key={field.name}
+            className="flex flex-col gap-2"
+          >
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor={id}>
+                {field.label}
+                {field.required && <span className="text-rose-500">*</span>}
+              </Label>
+              {field.kind === "boolean" && input}
+            </div>
+            {field.description && (
+              <p className="text-muted-foreground text-xs">
+                {field.description}
+              </p>
+            )}
+            {field.kind !== "boolean" && input}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
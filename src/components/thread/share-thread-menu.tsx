@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { Link2, Link2Off, Share2 } from "lucide-react";
+import { toast } from "sonner";
+import { useQueryState } from "nuqs";
+import { useThreads } from "@/providers/Thread";
+import { getShareUrl, isThreadShared } from "@/lib/thread-sharing";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { TooltipIconButton } from "./tooltip-icon-button";
+
+export function ShareThreadMenu() {
+  const [threadId] = useQueryState("threadId");
+  const { threads, setThreadShared } = useThreads();
+  const [updating, setUpdating] = useState(false);
+
+  const shared = isThreadShared(threads.find((t) => t.thread_id === threadId));
+
+  const handleCopyLink = async () => {
+    if (!threadId) return;
+    setUpdating(true);
+    try {
+      // Sharing is idempotent, so re-share in case the thread list is stale
+      if (!(await setThreadShared(threadId, true))) return;
+      await navigator.clipboard.writeText(getShareUrl(threadId));
+      toast.success("Share link copied", {
+        description: "Anyone with the link can view this conversation.",
+      });
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  const handleStopSharing = async () => {
+    if (!threadId) return;
+    setUpdating(true);
+    try {
+      if (await setThreadShared(threadId, false)) {
+        toast.success("Share link disabled");
+      }
+    } finally {
+      setUpdating(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <TooltipIconButton
+          size="lg"
+          className="p-4"
+          tooltip="Share conversation"
+          variant="ghost"
+          disabled={!threadId || updating}
+        >
+          <Share2 className="size-5" />
+        </TooltipIconButton>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          {shared ? "Shared via link" : "Not shared"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={handleCopyLink}>
+          <Link2 />
+          Copy share link
+        </DropdownMenuItem>
+        {shared && (
+          <DropdownMenuItem
+            variant="destructive"
+            onSelect={handleStopSharing}
+          >
+            <Link2Off />
+            Stop sharing
+          </DropdownMenuItem>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
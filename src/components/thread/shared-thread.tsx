@@ -0,0 +1,74 @@
+import { useEffect, useState } from "react";
+import { Eye } from "lucide-react";
+import { useStreamContext } from "@/providers/Stream";
+import { DO_NOT_RENDER_ID_PREFIX } from "@/lib/ensure-tool-responses";
+import { getThreadTitle } from "@/lib/thread-title";
+import { FacetAITextLogoSVG } from "@/components/icons/facetai";
+import { AssistantMessage } from "./messages/ai";
+import { HumanMessage } from "./messages/human";
+
+/**
+ * Read-only view of a shared thread. Renders the thread's messages without
+ * the composer, history sidebar or any controls that start a run.
+ */
+export function SharedThread({ threadId }: { threadId: string }) {
+  const stream = useStreamContext();
+  const [title, setTitle] = useState<string | undefined>();
+
+  useEffect(() => {
+    stream.client.threads
+      .get(threadId)
+      .then((thread) => setTitle(getThreadTitle(thread)))
+      .catch(() => setTitle(undefined));
+  }, [stream.client, threadId]);
+
+  const messages = stream.messages.filter(
+    (m) => !m.id?.startsWith(DO_NOT_RENDER_ID_PREFIX),
+  );
+
+  return (
+    <div className="flex min-h-screen w-full flex-col">
+      <header className="bg-card flex items-center gap-3 border-b px-4 py-3 shadow-sm">
+        <FacetAITextLogoSVG className="text-primary h-8" />
+        {title && (
+          <h1 className="text-muted-foreground truncate border-l pl-3 text-sm font-medium">
+            {title}
+          </h1>
+        )}
+        <span className="text-muted-foreground ml-auto flex items-center gap-1 rounded-md border px-2 py-1 text-xs">
+          <Eye className="size-3.5" />
+          Read-only
+        </span>
+      </header>
+      <main className="mx-auto flex w-full max-w-3xl flex-col gap-4 px-4 pt-8 pb-16">
+        {stream.error ? (
+          <p className="text-muted-foreground text-center text-sm">
+            This conversation isn&apos;t available. It may no longer be shared.
+          </p>
+        ) : messages.length === 0 ? (
+          <p className="text-muted-foreground text-center text-sm">
+            Loading conversation...
+          </p>
+        ) : (
+          messages.map((message, index) =>
+            message.type === "human" ? (
+              <HumanMessage
+                key={message.id || `${message.type}-${index}`}
+                message={message}
+                isLoading={false}
+                readOnly
+              />
+            ) : (
+              <AssistantMessage
+                key={message.id || `${message.type}-${index}`}
+                message={message}
+                isLoading={false}
+                readOnly
+              />
+            ),
+          )
+        )}
+      </main>
+    </div>
+  );
+}
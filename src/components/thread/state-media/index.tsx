@@ -0,0 +1,53 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { useStreamContext } from "@/providers/Stream";
+import {
+  getMessageStateMedia,
+  STATE_MEDIA_FIELDS,
+  type StateMediaItem,
+} from "@/lib/state-media";
+import { getStateMediaRenderer } from "./registry";
+
+type Values = Record<string, unknown>;
+
+function useStateMedia(message: Message): StateMediaItem[] {
+  const thread = useStreamContext();
+  const { messages } = thread;
+  const index = messages.findIndex((m) => m.id === message.id);
+  if (index === -1) return [];
+
+  return getMessageStateMedia(
+    STATE_MEDIA_FIELDS,
+    messages,
+    messages.map(
+      (m, i) =>
+        thread.getMessagesMetadata(m, i)?.firstSeenState?.values as
+          | Values
+          | undefined,
+    ),
+    thread.values as Values,
+    index,
+  );
+}
+
+/**
+ * Renders media from graph state keys mapped to renderers, e.g. images a
+ * graph generates, under the message which produced them.
+ */
+export function StateMedia({ message }: { message: Message }) {
+  const items = useStateMedia(message);
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-col gap-2">
+      {items.map((item) => {
+        const Renderer = getStateMediaRenderer(item.field.type);
+        return Renderer ? (
+          <Renderer
+            key={item.field.key}
+            item={item}
+          />
+        ) : null;
+      })}
+    </div>
+  );
+}
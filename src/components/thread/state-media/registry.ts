@@ -0,0 +1,41 @@
+import type { ComponentType } from "react";
+import type { StateMediaItem, StateMediaType } from "@/lib/state-media";
+import {
+  AudioMedia,
+  ChartMedia,
+  FileMedia,
+  ImageMedia,
+  VideoMedia,
+} from "./renderers";
+
+export interface StateMediaRendererProps {
+  item: StateMediaItem;
+}
+
+export type StateMediaRenderer = ComponentType<StateMediaRendererProps>;
+
+const renderers = new Map<StateMediaType, StateMediaRenderer>([
+  ["image", ImageMedia],
+  ["video", VideoMedia],
+  ["audio", AudioMedia],
+  ["file", FileMedia],
+  ["chart", ChartMedia],
+]);
+
+/**
+ * Registers the component rendering state media of `type`, replacing any
+ * built-in renderer. Call it from a module imported before the thread
+ * renders, and map state keys to the type in `NEXT_PUBLIC_STATE_MEDIA_FIELDS`.
+ */
+export function registerStateMediaRenderer(
+  type: StateMediaType,
+  renderer: StateMediaRenderer,
+): void {
+  renderers.set(type, renderer);
+}
+
+export function getStateMediaRenderer(
+  type: StateMediaType,
+): StateMediaRenderer | undefined {
+  return renderers.get(type);
+}
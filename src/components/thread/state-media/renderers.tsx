@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Download, File } from "lucide-react";
+import { parseChartSpec } from "@/lib/charts";
+import { getStateMediaSources } from "@/lib/state-media";
+import { cn } from "@/lib/utils";
+import { Chart } from "../chart";
+import { useImageGallery } from "../image-gallery";
+import type { StateMediaRendererProps } from "./registry";
+
+const mediaClassName = "w-full rounded-lg border border-gray-200 shadow-sm";
+
+function Caption({ children }: { children?: string }) {
+  if (!children) return null;
+  return <p className="mt-1 text-sm text-gray-600 italic">{children}</p>;
+}
+
+// Media that fails to load is hidden, like a missing image in the state
+function StateImage({ src, caption }: { src: string; caption?: string }) {
+  const gallery = useImageGallery();
+  const [failed, setFailed] = useState(false);
+  if (failed) return null;
+  return (
+    <div className="max-w-md">
+      <img
+        src={src}
+        alt={caption || "Generated image"}
+        className={cn(mediaClassName, gallery && "cursor-zoom-in")}
+        loading="lazy"
+        onClick={() => gallery?.openImage(src)}
+        onError={() => setFailed(true)}
+      />
+      <Caption>{caption}</Caption>
+    </div>
+  );
+}
+
+function StateVideo({ src, caption }: { src: string; caption?: string }) {
+  const [failed, setFailed] = useState(false);
+  if (failed) return null;
+  return (
+    <div className="max-w-md">
+      <video
+        src={src}
+        controls
+        className={mediaClassName}
+        onError={() => setFailed(true)}
+      >
+        Your browser does not support the video tag.
+      </video>
+      <Caption>{caption}</Caption>
+    </div>
+  );
+}
+
+export function ImageMedia({ item }: StateMediaRendererProps) {
+  return (
+    <>
+      {getStateMediaSources(item.value, "image").map((src) => (
+        <StateImage
+          key={src}
+          src={src}
+          caption={item.caption}
+        />
+      ))}
+    </>
+  );
+}
+
+export function VideoMedia({ item }: StateMediaRendererProps) {
+  return (
+    <>
+      {getStateMediaSources(item.value, "video").map((src) => (
+        <StateVideo
+          key={src}
+          src={src}
+          caption={item.caption}
+        />
+      ))}
+    </>
+  );
+}
+
+export function AudioMedia({ item }: StateMediaRendererProps) {
+  return (
+    <>
+      {getStateMediaSources(item.value, "audio").map((src) => (
+        <div
+          key={src}
+          className="max-w-md"
+        >
+          <audio
+            src={src}
+            controls
+            className="w-full"
+          />
+          <Caption>{item.caption}</Caption>
+        </div>
+      ))}
+    </>
+  );
+}
+
+function getFileName(src: string, fallback: string): string {
+  if (src.startsWith("data:")) return fallback;
+  const name = src.split(/[?#]/)[0].split("/").pop();
+  if (!name) return fallback;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    // Malformed escapes, e.g. a stray `%`
+    return name;
+  }
+}
+
+export function FileMedia({ item }: StateMediaRendererProps) {
+  return (
+    <>
+      {getStateMediaSources(item.value, "file").map((src) => {
+        const name = getFileName(src, item.field.key);
+        return (
+          <a
+            key={src}
+            href={src}
+            download={name}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="bg-background hover:bg-muted flex max-w-md items-center gap-2 rounded-lg border px-3 py-2 text-sm shadow-sm"
+          >
+            <File className="size-4 shrink-0 text-gray-500" />
+            <span className="min-w-0 flex-1 truncate">
+              {item.caption || name}
+            </span>
+            <Download className="size-4 shrink-0 text-gray-500" />
+          </a>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Plots a chart spec, as in `chart` code blocks, or a bare array of records.
+ */
+export function ChartMedia({ item }: StateMediaRendererProps) {
+  const spec = parseChartSpec(item.value);
+  if (!spec) return null;
+
+  return (
+    <div className="w-full max-w-xl">
+      <Chart spec={spec} />
+      <Caption>{item.caption}</Caption>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { PrismAsyncLight as SyntaxHighlighterPrism } from "react-syntax-highlighter";
 import tsx from "react-syntax-highlighter/dist/esm/languages/prism/tsx";
 import python from "react-syntax-highlighter/dist/esm/languages/prism/python";
+import json from "react-syntax-highlighter/dist/esm/languages/prism/json";
+import markup from "react-syntax-highlighter/dist/esm/languages/prism/markup";
 import { coldarkDark } from "react-syntax-highlighter/dist/cjs/styles/prism";
 import { FC } from "react";
 
@@ -10,6 +12,9 @@ SyntaxHighlighterPrism.registerLanguage("jsx", tsx);
 SyntaxHighlighterPrism.registerLanguage("ts", tsx);
 SyntaxHighlighterPrism.registerLanguage("tsx", tsx);
 SyntaxHighlighterPrism.registerLanguage("python", python);
+SyntaxHighlighterPrism.registerLanguage("json", json);
+SyntaxHighlighterPrism.registerLanguage("html", markup);
+SyntaxHighlighterPrism.registerLanguage("svg", markup);
 
 interface SyntaxHighlighterProps {
   children: string;
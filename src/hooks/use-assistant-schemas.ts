@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useState } from "react";
+import type { Client, GraphSchema } from "@langchain/langgraph-sdk";
+import { useStreamContext } from "@/providers/Stream";
+import {
+  getSchemaFields,
+  type JsonSchema,
+  type SchemaField,
+} from "@/lib/json-schema";
+
+// Schemas only change when a graph is redeployed, so fetch them once per page
+const schemaCache = new WeakMap<Client, Map<string, Promise<GraphSchema>>>();
+
+function getSchemas(client: Client, assistantId: string) {
+  let schemas = schemaCache.get(client);
+  if (!schemas) {
+    schemas = new Map();
+    schemaCache.set(client, schemas);
+  }
+  let request = schemas.get(assistantId);
+  if (!request) {
+    request = client.assistants.getSchemas(assistantId);
+    // Don't cache failures, so they're retried
+    request.catch(() => schemas.delete(assistantId));
+    schemas.set(assistantId, request);
+  }
+  return request;
+}
+
+/**
+ * Returns the input, state and config schemas of the current assistant's
+ * graph, or `null` while they're loading or if they couldn't be fetched.
+ */
+export function useAssistantSchemas() {
+  const { client, assistantId } = useStreamContext();
+  const [schemas, setSchemas] = useState<GraphSchema | null>(null);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    setSchemas(null);
+    setError(false);
+
+    let cancelled = false;
+    getSchemas(client, assistantId)
+      .then((result) => {
+        if (!cancelled) setSchemas(result);
+      })
+      .catch((e) => {
+        console.error("Failed to fetch assistant schemas:", e);
+        if (!cancelled) setError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, assistantId]);
+
+  return { schemas, loading: !schemas && !error };
+}
+
+// Input keys the chat sets itself
+const APP_INPUT_KEYS = ["messages", "context", "ui"];
+
+/**
+ * Form fields for the graph's input keys other than those the chat sets,
+ * e.g. extra state a graph reads alongside the messages.
+ */
+export function useInputFields(): SchemaField[] {
+  const { schemas } = useAssistantSchemas();
+  return useMemo(() => {
+    if (!schemas?.input_schema) return [];
+    return getSchemaFields(schemas.input_schema as JsonSchema).filter(
+      (field) => !APP_INPUT_KEYS.includes(field.name),
+    );
+  }, [schemas]);
+}
@@ -3,17 +3,20 @@ import { toast } from "sonner";
 import type { Base64ContentBlock } from "@langchain/core/messages";
 import {
   fileToContentBlock,
-  SUPPORTED_IMAGE_TYPES,
+  isSupportedFile,
   cleanupObjectUrls,
   type ExtendedContentBlock,
 } from "@/lib/multimodal-utils";
+import type { ImageQualityPreset } from "@/lib/image-processing";
 
 interface UseFileUploadOptions {
   initialBlocks?: ExtendedContentBlock[];
+  imageQuality?: ImageQualityPreset;
 }
 
 export function useFileUpload({
   initialBlocks = [],
+  imageQuality = "balanced",
 }: UseFileUploadOptions = {}) {
   const [contentBlocks, setContentBlocks] =
     useState<ExtendedContentBlock[]>(initialBlocks);
@@ -21,26 +24,18 @@ export function useFileUpload({
   const [dragOver, setDragOver] = useState(false);
   const dragCounter = useRef(0);
 
-  const isDuplicate = (file: File, blocks: ExtendedContentBlock[]) => {
-    if (SUPPORTED_IMAGE_TYPES.includes(file.type as any)) {
-      return blocks.some(
-        (b) =>
-          b.type === "image" &&
-          b.metadata?.name === file.name &&
-          b.mime_type === file.type,
-      );
-    }
-    return false;
-  };
+  // Images may be converted to another type, so compare the original size
+  const isDuplicate = (file: File, blocks: ExtendedContentBlock[]) =>
+    blocks.some(
+      (b) =>
+        b.metadata?.name === file.name &&
+        (b.metadata.originalSize ?? b.metadata.size) === file.size,
+    );
 
   const processFiles = useCallback(
     async (files: File[]) => {
-      const validFiles = files.filter((file) =>
-        SUPPORTED_IMAGE_TYPES.includes(file.type as any),
-      );
-      const invalidFiles = files.filter(
-        (file) => !SUPPORTED_IMAGE_TYPES.includes(file.type as any),
-      );
+      const validFiles = files.filter(isSupportedFile);
+      const invalidFiles = files.filter((file) => !isSupportedFile(file));
       const duplicateFiles = validFiles.filter((file) =>
         isDuplicate(file, contentBlocks),
       );
@@ -50,23 +45,28 @@ export function useFileUpload({
 
       if (invalidFiles.length > 0) {
         toast.error(
-          "Invalid file type detected. Please upload a JPEG, PNG, GIF, or WEBP image.",
+          "Invalid file type detected. Please upload an image, PDF, text, Markdown, CSV or audio file.",
         );
       }
       if (duplicateFiles.length > 0) {
         toast.error(
-          `Duplicate image(s) detected: ${duplicateFiles.map((f) => f.name).join(", ")}. Each image can only be uploaded once per message.`,
+          `Duplicate file(s) detected: ${duplicateFiles.map((f) => f.name).join(", ")}. Each file can only be uploaded once per message.`,
         );
       }
 
       if (uniqueFiles.length > 0) {
-        const newBlocks = await Promise.all(
-          uniqueFiles.map(fileToContentBlock),
+        // fileToContentBlock reports its own errors, so keep the files that
+        // could be read even when others fail validation
+        const results = await Promise.allSettled(
+          uniqueFiles.map((file) => fileToContentBlock(file, imageQuality)),
+        );
+        const newBlocks = results.flatMap((r) =>
+          r.status === "fulfilled" ? [r.value] : [],
         );
         setContentBlocks((prev) => [...prev, ...newBlocks]);
       }
     },
-    [contentBlocks],
+    [contentBlocks, imageQuality],
   );
 
   const handleFileUpload = async (e: ChangeEvent<HTMLInputElement>) => {
@@ -163,8 +163,8 @@ export function useFileUpload({
       // Clean up object URL if it exists
       if (blockToRemove?.source_type === "url" && 
           blockToRemove.metadata?.isObjectUrl && 
-          blockToRemove.data.startsWith('blob:')) {
-        URL.revokeObjectURL(blockToRemove.data);
+          blockToRemove.url.startsWith('blob:')) {
+        URL.revokeObjectURL(blockToRemove.url);
       }
       return prev.filter((_, i) => i !== idx);
     });
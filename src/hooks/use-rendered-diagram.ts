@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react";
+import { renderDiagram, type DiagramLanguage } from "@/lib/diagrams";
+
+// Source still changing after this long is assumed to be streaming in
+const RENDER_DELAY_MS = 300;
+
+type RenderedDiagram = { code: string } & (
+  | { svg: string; error?: undefined }
+  | { svg?: undefined; error: string }
+);
+
+/**
+ * Renders diagram source once it stops changing. Returns `undefined` until
+ * the current source has rendered, so callers show the source meanwhile.
+ */
+export function useRenderedDiagram(
+  language: DiagramLanguage,
+  code: string,
+): RenderedDiagram | undefined {
+  const [result, setResult] = useState<RenderedDiagram>();
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      renderDiagram(language, code).then(
+        (svg) => !cancelled && setResult({ code, svg }),
+        (error) =>
+          !cancelled &&
+          setResult({
+            code,
+            error: error instanceof Error ? error.message : String(error),
+          }),
+      );
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [language, code]);
+
+  return result?.code === code ? result : undefined;
+}
@@ -0,0 +1,159 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Client } from "@langchain/langgraph-sdk";
+import { toast } from "sonner";
+
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+// 1s, 2s, 4s... capped at 30s
+const getBackoffDelay = (attempt: number) =>
+  Math.min(1000 * 2 ** attempt, 30_000);
+
+/**
+ * Returns true for errors thrown by `fetch` when the connection drops, as
+ * opposed to errors returned by the server.
+ */
+export function isNetworkError(error: unknown): boolean {
+  return (
+    error instanceof TypeError &&
+    /fetch|network|load failed/i.test(error.message)
+  );
+}
+
+function wait(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout);
+      resolve();
+    };
+    const timeout = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+async function findActiveRun(client: Client, threadId: string) {
+  const runs = await client.runs.list(threadId, { limit: 10 });
+  return runs.find(
+    (run) => run.status === "running" || run.status === "pending",
+  );
+}
+
+export type ResumeStatus = "idle" | "streaming" | "reconnecting";
+
+/**
+ * Rejoins runs which are still in progress on the server but no longer
+ * streamed by `useStream`, i.e. after a page reload or a dropped connection.
+ * While a run is joined, `values` holds its latest state. `onRunEnd` is
+ * called once no run is left to join, so the thread can be refetched.
+ */
+export function useResumeRun<StateType>({
+  client,
+  threadId,
+  isLoading,
+  onRunEnd,
+}: {
+  client: Client;
+  threadId: string | null;
+  /** Whether `useStream` is streaming a run itself */
+  isLoading: boolean;
+  onRunEnd: () => void;
+}) {
+  const [values, setValues] = useState<StateType | null>(null);
+  const [status, setStatus] = useState<ResumeStatus>("idle");
+  const abortRef = useRef<AbortController | null>(null);
+  const onRunEndRef = useRef(onRunEnd);
+  onRunEndRef.current = onRunEnd;
+
+  const abort = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStatus("idle");
+  }, []);
+
+  /**
+   * Joins the thread's active run, if any. With `reconnecting`, starts by
+   * backing off, since the connection has just dropped.
+   */
+  const resume = useCallback(
+    async (reconnecting = false) => {
+      if (!threadId) return;
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      const { signal } = controller;
+
+      let joined = reconnecting;
+      let attempt = 0;
+      if (reconnecting) setStatus("reconnecting");
+
+      while (!signal.aborted) {
+        try {
+          if (reconnecting) {
+            await wait(getBackoffDelay(attempt), signal);
+            if (signal.aborted) return;
+          }
+          const run = await findActiveRun(client, threadId);
+          if (!run) break;
+
+          joined = true;
+          reconnecting = false;
+          attempt = 0;
+          setStatus("streaming");
+          const stream = client.runs.joinStream(threadId, run.run_id, {
+            signal,
+            streamMode: ["values"],
+          });
+          for await (const { event, data } of stream) {
+            if (event === "values") setValues(data as StateType);
+          }
+          // The run finished. Loop to join any run queued after it.
+        } catch (error) {
+          if (signal.aborted) return;
+          if (!isNetworkError(error) || attempt >= MAX_RECONNECT_ATTEMPTS) {
+            console.error("Failed to resume run:", error);
+            toast.error("Lost connection to the run", {
+              description: "Reload the page to see its latest state.",
+            });
+            // The thread can't be refetched either, so leave it as it is
+            abortRef.current = null;
+            setStatus("idle");
+            return;
+          }
+          reconnecting = true;
+          attempt += 1;
+          setStatus("reconnecting");
+        }
+      }
+
+      if (signal.aborted) return;
+      abortRef.current = null;
+      setStatus("idle");
+      if (joined) onRunEndRef.current();
+    },
+    [client, threadId],
+  );
+
+  // Look for a run to rejoin whenever a thread is opened. `useStream` is
+  // already streaming when a new thread gets its ID, so skip that case.
+  const isLoadingRef = useRef(isLoading);
+  isLoadingRef.current = isLoading;
+  useEffect(() => {
+    setValues(null);
+    if (threadId && !isLoadingRef.current) resume();
+    return () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setStatus("idle");
+    };
+  }, [threadId, resume]);
+
+  return {
+    values,
+    status,
+    resume,
+    abort,
+    clearValues: useCallback(() => setValues(null), []),
+  };
+}
@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from "react";
+
+export type RunConfig = Record<string, unknown>;
+
+const getStorageKey = (assistantId: string) =>
+  `lg:chat:runConfig:${assistantId}`;
+
+function readRunConfig(assistantId: string): RunConfig {
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(assistantId));
+    return stored ? (JSON.parse(stored) as RunConfig) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Configurable parameters set by the user for an assistant's runs, saved in
+ * local storage per assistant.
+ */
+export function useRunConfig(assistantId: string) {
+  const [runConfig, setRunConfigState] = useState<RunConfig>({});
+
+  useEffect(() => {
+    setRunConfigState(readRunConfig(assistantId));
+  }, [assistantId]);
+
+  const setRunConfig = useCallback(
+    (config: RunConfig) => {
+      setRunConfigState(config);
+      try {
+        if (Object.keys(config).length > 0) {
+          window.localStorage.setItem(
+            getStorageKey(assistantId),
+            JSON.stringify(config),
+          );
+        } else {
+          window.localStorage.removeItem(getStorageKey(assistantId));
+        }
+      } catch {
+        // no-op
+      }
+    },
+    [assistantId],
+  );
+
+  return { runConfig, setRunConfig };
+}
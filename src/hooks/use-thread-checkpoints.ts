@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from "react";
+import type { ThreadState } from "@langchain/langgraph-sdk";
+import { useStreamContext } from "@/providers/Stream";
+
+// Long threads have many checkpoints per turn, so only fetch the recent ones
+const CHECKPOINT_LIMIT = 200;
+
+/**
+ * Fetches the most recent checkpoints of a thread across all its branches,
+ * newest first, while `enabled`. Refetches when a run finishes. `truncated`
+ * is set when older checkpoints were left out.
+ */
+export function useThreadCheckpoints(
+  threadId: string | null,
+  enabled: boolean,
+) {
+  const { client, isLoading } = useStreamContext();
+  const [checkpoints, setCheckpoints] = useState<ThreadState[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    if (!enabled || !threadId || isLoading) return;
+
+    let cancelled = false;
+    setLoading(true);
+    client.threads
+      .getHistory(threadId, { limit: CHECKPOINT_LIMIT })
+      .then((result) => {
+        if (!cancelled) setCheckpoints(result);
+      })
+      .catch((e) => {
+        console.error("Failed to fetch checkpoints:", e);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, threadId, enabled, isLoading, refreshKey]);
+
+  useEffect(() => {
+    setCheckpoints([]);
+  }, [threadId]);
+
+  const refresh = useCallback(() => setRefreshKey((key) => key + 1), []);
+
+  return {
+    checkpoints,
+    loading,
+    refresh,
+    truncated: checkpoints.length >= CHECKPOINT_LIMIT,
+  };
+}
@@ -0,0 +1,92 @@
+import type { ThreadState } from "@langchain/langgraph-sdk";
+import type { UIMessage } from "@langchain/langgraph-sdk/react-ui";
+
+export interface ArtifactVersion {
+  /** Checkpoint or message the version was produced in */
+  id: string;
+  messageId?: string;
+  /** Text compared between versions */
+  text: string;
+  /** Sent back to the agent when the version is restored */
+  value: unknown;
+}
+
+/** Key of the artifact context holding a restored version */
+export const RESTORED_ARTIFACT_CONTEXT_KEY = "restored_artifact";
+
+export interface RestoredArtifact {
+  artifact_id: string;
+  /** 1-based, as shown in the version switcher */
+  version: number;
+  version_id: string;
+  value: unknown;
+}
+
+export function getRestoredArtifactContext(
+  artifactId: string,
+  versions: ArtifactVersion[],
+  index: number,
+): Record<string, RestoredArtifact> {
+  return {
+    [RESTORED_ARTIFACT_CONTEXT_KEY]: {
+      artifact_id: artifactId,
+      version: index + 1,
+      version_id: versions[index].id,
+      value: versions[index].value,
+    },
+  };
+}
+
+export function getRestoredArtifact(
+  context: Record<string, unknown>,
+): RestoredArtifact | undefined {
+  return context[RESTORED_ARTIFACT_CONTEXT_KEY] as RestoredArtifact | undefined;
+}
+
+/**
+ * Removes the restored version from the artifact context, once it's been
+ * sent with a message.
+ */
+export function withoutRestoredArtifact(
+  context: Record<string, unknown>,
+): Record<string, unknown> {
+  if (!(RESTORED_ARTIFACT_CONTEXT_KEY in context)) return context;
+  const { [RESTORED_ARTIFACT_CONTEXT_KEY]: _restored, ...rest } = context;
+  return rest;
+}
+
+type UIState = { ui?: UIMessage[] };
+
+/**
+ * Lists each version of a UI message's props, from the checkpoints of the
+ * current branch, oldest first. The last version is from the live state, so
+ * it reflects updates still streaming in.
+ */
+export function getUIMessageVersions(
+  uiId: string,
+  history: ThreadState<UIState>[],
+  values: UIState,
+): ArtifactVersion[] {
+  const versions: ArtifactVersion[] = [];
+  const states = [
+    ...history.map((state) => ({
+      id: state.checkpoint.checkpoint_id ?? undefined,
+      ui: state.values.ui,
+    })),
+    { id: undefined, ui: values.ui },
+  ];
+
+  for (const state of states) {
+    const ui = state.ui?.find((message) => message.id === uiId);
+    if (!ui) continue;
+    const text = JSON.stringify(ui.props, null, 2);
+    if (versions[versions.length - 1]?.text === text) continue;
+    versions.push({
+      id: state.id ?? "latest",
+      messageId: ui.metadata?.message_id,
+      text,
+      value: ui,
+    });
+  }
+  return versions;
+}
@@ -0,0 +1,56 @@
+import type { Assistant, Thread } from "@langchain/langgraph-sdk";
+import { validate } from "uuid";
+
+/**
+ * Metadata recording which assistant a thread was created with. Assistant
+ * IDs are UUIDs, anything else is the name of a graph.
+ */
+export function getAssistantMetadata(assistantId: string) {
+  return validate(assistantId)
+    ? { assistant_id: assistantId }
+    : { graph_id: assistantId };
+}
+
+/**
+ * Returns the assistant or graph a thread was created with, if recorded.
+ */
+export function getThreadAssistantId(
+  thread: Thread | undefined,
+): string | undefined {
+  const { assistant_id, graph_id } = thread?.metadata ?? {};
+  if (typeof assistant_id === "string" && assistant_id) return assistant_id;
+  if (typeof graph_id === "string" && graph_id) return graph_id;
+  return undefined;
+}
+
+/**
+ * Whether `assistantId` is one the thread can be continued with. The server
+ * records both the assistant and its graph, and threads created with a graph
+ * name can be continued by its default assistant.
+ */
+export function isThreadBoundTo(thread: Thread, assistantId: string): boolean {
+  const { assistant_id, graph_id } = thread.metadata ?? {};
+  return assistant_id === assistantId || graph_id === assistantId;
+}
+
+/**
+ * Whether `assistantId` refers to the assistant, either by ID or, for the
+ * default assistant created for each graph, by graph name.
+ */
+export function isAssistantSelected(
+  assistant: Assistant,
+  assistantId: string,
+): boolean {
+  return (
+    assistant.assistant_id === assistantId ||
+    (assistant.graph_id === assistantId &&
+      assistant.metadata?.created_by === "system")
+  );
+}
+
+export function getAssistantName(assistant: Assistant): string {
+  // Older servers name assistants created without a name "Untitled"
+  return assistant.name && assistant.name !== "Untitled"
+    ? assistant.name
+    : assistant.graph_id;
+}
@@ -0,0 +1,116 @@
+import type { Message, ThreadState } from "@langchain/langgraph-sdk";
+
+// Mirrors the shape of `useStream`'s `experimental_branchTree`, which the SDK
+// doesn't export types for
+export interface TreeNode {
+  type: "node";
+  value: ThreadState<{ messages?: Message[] }>;
+  path: string[];
+}
+
+interface TreeFork {
+  type: "fork";
+  items: TreeSequence[];
+}
+
+export interface TreeSequence {
+  type: "sequence";
+  items: (TreeNode | TreeFork)[];
+}
+
+// Separates checkpoint IDs in branch paths, as in the SDK
+export const PATH_SEP = ">";
+
+export interface BranchSummary {
+  /** Passed to `setBranch` to switch to this branch */
+  path: string;
+  /** First message that isn't in the other branches */
+  firstMessage?: Message;
+  messageCount: number;
+  /** Whether the branch is part of the branch being viewed */
+  active: boolean;
+  /** Forks further along this branch */
+  forks: BranchFork[];
+}
+
+export interface BranchFork {
+  /** Last message before the branches diverge */
+  divergesAfter?: Message;
+  branches: BranchSummary[];
+}
+
+export function getNodeMessages(node: TreeNode): Message[] {
+  return node.value.values?.messages ?? [];
+}
+
+function summarizeBranch(
+  sequence: TreeSequence,
+  parentMessages: Message[],
+  activeCheckpointIds: Set<string | null | undefined>,
+): BranchSummary | undefined {
+  const first = sequence.items[0];
+  if (first?.type !== "node") return undefined;
+
+  const parentIds = new Set(parentMessages.map((m) => m.id));
+  const nodes = sequence.items.filter(
+    (item): item is TreeNode => item.type === "node",
+  );
+  const firstMessage = nodes
+    .flatMap(getNodeMessages)
+    .find((message) => !parentIds.has(message.id));
+  const last = nodes[nodes.length - 1];
+
+  return {
+    path: first.path.join(PATH_SEP),
+    firstMessage,
+    messageCount: getNodeMessages(last).length,
+    active: activeCheckpointIds.has(first.value.checkpoint.checkpoint_id),
+    forks: getBranchForks(sequence, activeCheckpointIds, parentMessages),
+  };
+}
+
+/**
+ * Lists the points where a thread's history forks, e.g. after editing or
+ * regenerating a message, with a summary of each branch.
+ * `activeCheckpointIds` are the checkpoints of the branch being viewed.
+ */
+export function getBranchForks(
+  tree: TreeSequence,
+  activeCheckpointIds: Set<string | null | undefined>,
+  parentMessages: Message[] = [],
+): BranchFork[] {
+  const forks: BranchFork[] = [];
+  let messages = parentMessages;
+
+  for (const item of tree.items) {
+    if (item.type === "node") {
+      messages = getNodeMessages(item);
+      continue;
+    }
+    const branches = item.items
+      .map((sequence) =>
+        summarizeBranch(sequence, messages, activeCheckpointIds),
+      )
+      .filter((branch): branch is BranchSummary => !!branch);
+    if (branches.length > 1) {
+      forks.push({ divergesAfter: messages[messages.length - 1], branches });
+    } else if (branches.length === 1) {
+      forks.push(...branches[0].forks);
+    }
+  }
+  return forks;
+}
+
+/** Number of branches in the tree, counting a thread without forks as one */
+export function countBranches(forks: BranchFork[]): number {
+  return forks.reduce(
+    (count, fork) =>
+      count +
+      fork.branches.reduce(
+        (sum, branch) => sum + countBranches(branch.forks),
+        0,
+      ) -
+      1,
+    1,
+  );
+}
@@ -0,0 +1,114 @@
+export const CHART_TYPES = ["line", "bar", "area", "pie"] as const;
+export type ChartType = (typeof CHART_TYPES)[number];
+
+export type ChartRecord = Record<string, unknown>;
+
+export interface ChartSpec {
+  type: ChartType;
+  data: ChartRecord[];
+  /** Key of the x axis, or of the slice labels for pie charts */
+  x: string;
+  /** Keys of the plotted series. Pie charts only plot the first */
+  y: string[];
+  title?: string;
+}
+
+function isRecord(value: unknown): value is ChartRecord {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumeric(value: unknown): boolean {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Returns `value` if it's a non-empty array of records which all have the same
+ * keys, e.g. rows returned by a tool.
+ */
+export function getUniformRecords(value: unknown): ChartRecord[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  if (!value.every(isRecord)) return undefined;
+
+  const keys = Object.keys(value[0]).sort().join("\0");
+  if (!keys) return undefined;
+  return value.every((record) => Object.keys(record).sort().join("\0") === keys)
+    ? value
+    : undefined;
+}
+
+/**
+ * Keys of `records` that hold numbers in every record, which can be plotted.
+ */
+export function getNumericKeys(records: ChartRecord[]): string[] {
+  return Object.keys(records[0] ?? {}).filter((key) =>
+    records.every((record) => isNumeric(record[key])),
+  );
+}
+
+/**
+ * Builds a chart spec from JSON, filling in what it leaves out: the x axis
+ * defaults to the first non numeric key, and the series to the numeric keys.
+ * Accepts a bare array of records as a line chart. Returns `undefined` if
+ * there's nothing to plot.
+ */
+export function parseChartSpec(value: unknown): ChartSpec | undefined {
+  const spec: ChartRecord | undefined = Array.isArray(value)
+    ? { data: value }
+    : isRecord(value)
+      ? value
+      : undefined;
+  if (!spec || !Array.isArray(spec.data) || !spec.data.every(isRecord)) {
+    return undefined;
+  }
+  const data = spec.data as ChartRecord[];
+  if (data.length === 0) return undefined;
+
+  const type = CHART_TYPES.includes(spec.type as ChartType)
+    ? (spec.type as ChartType)
+    : "line";
+  const numericKeys = getNumericKeys(data);
+  const keys = Object.keys(data[0]);
+  const x =
+    typeof spec.x === "string"
+      ? spec.x
+      : (keys.find((key) => !numericKeys.includes(key)) ?? keys[0]);
+  const y = (
+    typeof spec.y === "string"
+      ? [spec.y]
+      : Array.isArray(spec.y)
+        ? spec.y.filter((key): key is string => typeof key === "string")
+        : numericKeys
+  ).filter((key) => key !== x);
+  if (y.length === 0) return undefined;
+
+  return {
+    type,
+    data,
+    x,
+    y,
+    title: typeof spec.title === "string" ? spec.title : undefined,
+  };
+}
+
+function toCsvCell(value: unknown): string {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes records as CSV, with a header row of the first record's keys.
+ */
+export function recordsToCsv(records: ChartRecord[]): string {
+  const keys = Object.keys(records[0] ?? {});
+  return [
+    keys.map(toCsvCell).join(","),
+    ...records.map((record) =>
+      keys.map((key) => toCsvCell(record[key])).join(","),
+    ),
+  ].join("\n");
+}
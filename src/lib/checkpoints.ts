@@ -0,0 +1,24 @@
+import type { ThreadState } from "@langchain/langgraph-sdk";
+
+export function getCheckpointId(state: ThreadState): string | undefined {
+  return state.checkpoint.checkpoint_id ?? undefined;
+}
+
+/**
+ * Nodes whose writes produced a checkpoint. Checkpoints without writes are
+ * named after their source, e.g. the input that started a run.
+ */
+export function getCheckpointNodes(state: ThreadState): string[] {
+  const writes = state.metadata?.writes;
+  if (writes && Object.keys(writes).length > 0) return Object.keys(writes);
+  const source = state.metadata?.source;
+  return [source === "update" ? "state update" : (source ?? "checkpoint")];
+}
+
+/**
+ * Whether forking from a checkpoint would run anything. Checkpoints at the
+ * end of a run have no next nodes, so their runs would end straight away.
+ */
+export function canForkFromCheckpoint(state: ThreadState): boolean {
+  return state.next.length > 0;
+}
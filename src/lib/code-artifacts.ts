@@ -0,0 +1,230 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { getContentString } from "@/components/thread/utils";
+
+export const CODE_ARTIFACT_LANGUAGES = ["html", "svg", "jsx"] as const;
+export type CodeArtifactLanguage = (typeof CODE_ARTIFACT_LANGUAGES)[number];
+
+export function isCodeArtifactLanguage(
+  language: string,
+): language is CodeArtifactLanguage {
+  return CODE_ARTIFACT_LANGUAGES.includes(language as CodeArtifactLanguage);
+}
+
+export interface CodeArtifactVersion {
+  /** Blocks with the same key are versions of one artifact */
+  key: string;
+  title: string;
+  language: CodeArtifactLanguage;
+  code: string;
+  /** Message the block was found in */
+  messageId?: string;
+}
+
+const DEFAULT_TITLES: Record<CodeArtifactLanguage, string> = {
+  html: "HTML page",
+  svg: "SVG image",
+  jsx: "React component",
+};
+
+const FILE_TYPES: Record<
+  CodeArtifactLanguage,
+  { extension: string; mimeType: string }
+> = {
+  html: { extension: "html", mimeType: "text/html" },
+  svg: { extension: "svg", mimeType: "image/svg+xml" },
+  jsx: { extension: "jsx", mimeType: "text/jsx" },
+};
+
+export function getCodeArtifactFileType(language: CodeArtifactLanguage) {
+  return FILE_TYPES[language];
+}
+
+function getTitleFromMeta(meta: string | undefined): string | undefined {
+  if (!meta?.trim()) return undefined;
+  const match = /title=(?:"([^"]*)"|'([^']*)'|(\S+))/.exec(meta);
+  return (match ? (match[1] ?? match[2] ?? match[3]) : meta).trim();
+}
+
+function getTitleFromCode(
+  language: CodeArtifactLanguage,
+  code: string,
+): string | undefined {
+  if (language === "jsx") {
+    return /export\s+default\s+(?:function|class)\s+([A-Z]\w*)/.exec(code)?.[1];
+  }
+  return /<title[^>]*>([^<]+)<\/title>/i.exec(code)?.[1].trim();
+}
+
+/**
+ * Identifies a code block as a version of an artifact. Blocks are matched by
+ * the title in the fence's info string, e.g. ```html title="Landing page",
+ * then by their `<title>` or default exported component. Untitled blocks of
+ * a language are versions of the same artifact.
+ */
+export function getCodeArtifactVersion(
+  language: CodeArtifactLanguage,
+  code: string,
+  meta?: string,
+): Omit<CodeArtifactVersion, "messageId"> {
+  const title = getTitleFromMeta(meta) ?? getTitleFromCode(language, code);
+  return {
+    key: title ? `${language}:${title}` : language,
+    title: title ?? DEFAULT_TITLES[language],
+    language,
+    code,
+  };
+}
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([\w-]*)\s*(.*)$/;
+
+/**
+ * Lists the fenced code blocks in markdown. A block left open, e.g. while
+ * streaming, runs to the end of the text.
+ */
+function getFencedCodeBlocks(markdown: string) {
+  const blocks: { language: string; meta: string; code: string }[] = [];
+  const lines = markdown.split("\n");
+
+  for (let i = 0; i < lines.length; i += 1) {
+    const open = FENCE_OPEN.exec(lines[i]);
+    if (!open) continue;
+    const [, fence, language, meta] = open;
+    const code: string[] = [];
+    for (i += 1; i < lines.length; i += 1) {
+      const line = lines[i].trim();
+      if (line.startsWith(fence) && /^(`+|~+)$/.test(line)) break;
+      code.push(lines[i]);
+    }
+    blocks.push({
+      language: language.toLowerCase(),
+      meta,
+      code: code.join("\n"),
+    });
+  }
+  return blocks;
+}
+
+/**
+ * Lists the artifact code blocks in a thread's AI messages, oldest first,
+ * skipping blocks repeated without changes.
+ */
+export function getCodeArtifactVersions(
+  messages: Message[],
+): CodeArtifactVersion[] {
+  const versions: CodeArtifactVersion[] = [];
+  for (const message of messages) {
+    if (message.type !== "ai") continue;
+    for (const block of getFencedCodeBlocks(
+      getContentString(message.content),
+    )) {
+      if (!isCodeArtifactLanguage(block.language)) continue;
+      const version = getCodeArtifactVersion(
+        block.language,
+        block.code,
+        block.meta,
+      );
+      const previous = versions.findLast((v) => v.key === version.key);
+      if (previous?.code === version.code) continue;
+      versions.push({ ...version, messageId: message.id });
+    }
+  }
+  return versions;
+}
+
+// React 18, as React 19 no longer publishes UMD builds. Versions are pinned
+// and checked against their hashes, so previews can't change underneath us.
+const JSX_RUNTIME_SCRIPTS = [
+  {
+    src: "https://unpkg.com/react@18.3.1/umd/react.production.min.js",
+    integrity:
+      "sha384-DGyLxAyjq0f9SPpVevD6IgztCFlnMF6oW/XQGmfe+IsZ8TqEiDrcHkMLKI6fiB/Z",
+  },
+  {
+    src: "https://unpkg.com/react-dom@18.3.1/umd/react-dom.production.min.js",
+    integrity:
+      "sha384-gTGxhz21lVGYNMcdJOyq01Edg0jhn/c22nsx0kyqP0TxaV5WVdsSH1fSDUf5YJj1",
+  },
+  {
+    src: "https://unpkg.com/@babel/standalone@7.29.9/babel.min.js",
+    integrity:
+      "sha384-oLbIC13I/8DNBviftYPfOFQS5DC2WUmwk0SyIPmnzu1Ui+vYyATSSBJiJ5ETa4o/",
+  },
+];
+
+const ERROR_STYLE =
+  "color:#b91c1c;font:13px/1.5 ui-monospace,monospace;white-space:pre-wrap;padding:16px;margin:0";
+
+// Compiles the component with Babel, resolving imports of React from the UMD
+// globals, and renders its default export, or `App` if there isn't one
+function getJsxDocument(code: string): string {
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8" />
+${JSX_RUNTIME_SCRIPTS.map(
+  ({ src, integrity }) =>
+    `<script src="${src}" integrity="${integrity}" crossorigin="anonymous"></script>`,
+).join("\n")}
+</head>
+<body>
+<div id="root"></div>
+<script>
+(function () {
+  function showError(error) {
+    var pre = document.createElement("pre");
+    pre.setAttribute("style", ${JSON.stringify(ERROR_STYLE)});
+    pre.textContent = String(error && error.stack || error);
+    document.body.replaceChildren(pre);
+  }
+  window.addEventListener("error", function (e) { showError(e.error || e.message); });
+  try {
+    var source = ${JSON.stringify(code).replace(/<\//g, "<\\/")};
+    var compiled = Babel.transform(source + "\\n;if (typeof App !== 'undefined' && !exports.default) exports.default = App;", {
+      presets: ["react"],
+      plugins: ["transform-modules-commonjs"],
+    }).code;
+    var modules = { react: React, "react-dom": ReactDOM, "react-dom/client": ReactDOM };
+    var module = { exports: {} };
+    new Function("require", "module", "exports", "React", compiled)(
+      function (name) {
+        if (name in modules) return modules[name];
+        throw new Error("Cannot import \\"" + name + "\\" in a preview");
+      },
+      module,
+      module.exports,
+      React,
+    );
+    var Component = module.exports.default;
+    if (typeof Component !== "function") {
+      throw new Error("Export a component as default, or name it App");
+    }
+    ReactDOM.createRoot(document.getElementById("root")).render(React.createElement(Component));
+  } catch (error) {
+    showError(error);
+  }
+})();
+</script>
+</body>
+</html>`;
+}
+
+/**
+ * Builds the document an artifact is previewed in. It's shown in a sandboxed
+ * iframe, so its scripts can't reach the app.
+ */
+export function getCodeArtifactDocument(
+  language: CodeArtifactLanguage,
+  code: string,
+): string {
+  if (language === "jsx") return getJsxDocument(code);
+  if (language === "html" && /<html[\s>]/i.test(code)) return code;
+  const body =
+    language === "svg"
+      ? `<div style="display:flex;min-height:100vh;align-items:center;justify-content:center">${code}</div>`
+      : code;
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8" /></head>
+<body style="margin:0">${body}</body>
+</html>`;
+}
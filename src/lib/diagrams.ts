@@ -0,0 +1,102 @@
+import type { Graphviz } from "@hpcc-js/wasm-graphviz";
+
+const DIAGRAM_LANGUAGES = {
+  mermaid: "mermaid",
+  dot: "graphviz",
+  graphviz: "graphviz",
+} as const;
+
+export type DiagramLanguage = keyof typeof DIAGRAM_LANGUAGES;
+
+export function isDiagramLanguage(
+  language: string,
+): language is DiagramLanguage {
+  return Object.hasOwn(DIAGRAM_LANGUAGES, language);
+}
+
+// Both renderers are large, so they're only loaded once a diagram is shown
+let mermaidPromise: Promise<typeof import("mermaid").default> | undefined;
+let graphvizPromise: Promise<Graphviz> | undefined;
+let mermaidRenderCount = 0;
+
+function loadMermaid() {
+  mermaidPromise ??= import("mermaid").then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      securityLevel: "strict",
+      // Plain SVG labels, so diagrams can be drawn to a canvas for PNG export
+      htmlLabels: false,
+      suppressErrorRendering: true,
+    });
+    return mermaid;
+  });
+  return mermaidPromise;
+}
+
+function loadGraphviz() {
+  graphvizPromise ??= import("@hpcc-js/wasm-graphviz").then(({ Graphviz }) =>
+    Graphviz.load(),
+  );
+  return graphvizPromise;
+}
+
+/**
+ * Renders diagram source to an SVG string. Throws if the source doesn't parse.
+ */
+export async function renderDiagram(
+  language: DiagramLanguage,
+  code: string,
+): Promise<string> {
+  if (DIAGRAM_LANGUAGES[language] === "graphviz") {
+    const graphviz = await loadGraphviz();
+    return graphviz.dot(code);
+  }
+
+  const mermaid = await loadMermaid();
+  mermaidRenderCount += 1;
+  const { svg } = await mermaid.render(`mermaid-${mermaidRenderCount}`, code);
+  return svg;
+}
+
+export function svgToDataUrl(svg: string): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+}
+
+/**
+ * Rasterizes an SVG at `scale` times its size. The SVG's size is taken from
+ * its viewBox, as diagrams are often sized relative to their container.
+ */
+export async function svgToPngBlob(svg: string, scale = 2): Promise<Blob> {
+  const doc = new DOMParser().parseFromString(svg, "image/svg+xml");
+  const root = doc.documentElement;
+  const viewBox = root
+    .getAttribute("viewBox")
+    ?.split(/[\s,]+/)
+    .map(Number);
+  const width = viewBox?.[2] || parseFloat(root.getAttribute("width") ?? "");
+  const height = viewBox?.[3] || parseFloat(root.getAttribute("height") ?? "");
+  if (!width || !height) throw new Error("Diagram has no size");
+  root.setAttribute("width", String(width));
+  root.setAttribute("height", String(height));
+
+  const image = new Image();
+  image.src = svgToDataUrl(new XMLSerializer().serializeToString(doc));
+  await image.decode();
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(width * scale);
+  canvas.height = Math.ceil(height * scale);
+  const context = canvas.getContext("2d")!;
+  // Diagrams have transparent backgrounds, which are unreadable in dark viewers
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode diagram")),
+      "image/png",
+    ),
+  );
+}
@@ -0,0 +1,341 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { getContentString } from "@/components/thread/utils";
+import { DO_NOT_RENDER_ID_PREFIX } from "./ensure-tool-responses";
+import {
+  getMediaContentBlockUrl,
+  isFileContentBlock,
+  isImageContentBlock,
+} from "./multimodal-utils";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+export interface ExportOptions {
+  title?: string;
+  threadId?: string | null;
+}
+
+interface ExportedImage {
+  src: string;
+  name?: string;
+}
+
+interface ExportedAttachment {
+  name: string;
+  mimeType: string;
+  /** Missing for text files, which are sent as text rather than a file */
+  url?: string;
+}
+
+const ROLE_LABELS: Record<Message["type"], string> = {
+  human: "User",
+  ai: "Assistant",
+  tool: "Tool",
+  system: "System",
+  function: "Function",
+  remove: "Remove",
+};
+
+// Placeholder tool responses are an implementation detail of the UI
+function isExportableMessage(message: Message): boolean {
+  return !message.id?.startsWith(DO_NOT_RENDER_ID_PREFIX);
+}
+
+/**
+ * Collects the images in a message's content, supporting both the LangChain
+ * `image` data blocks used by the composer and OpenAI-style `image_url` blocks.
+ */
+function getMessageImages(content: Message["content"]): ExportedImage[] {
+  if (typeof content === "string") return [];
+
+  return content.reduce<ExportedImage[]>((acc, block: any) => {
+    if (isImageContentBlock(block)) {
+      acc.push({
+        src: getMediaContentBlockUrl(block),
+        name: block.metadata?.name,
+      });
+    } else if (block?.type === "image_url") {
+      const url =
+        typeof block.image_url === "string"
+          ? block.image_url
+          : block.image_url?.url;
+      if (typeof url === "string") acc.push({ src: url });
+    }
+    return acc;
+  }, []);
+}
+
+/**
+ * Collects the audio, PDF and text file attachments in a message's content.
+ */
+function getMessageAttachments(
+  content: Message["content"],
+): ExportedAttachment[] {
+  if (typeof content === "string") return [];
+
+  return (content as unknown[]).filter(isFileContentBlock).map((block) => ({
+    name: block.metadata?.name ?? "attachment",
+    mimeType: block.mime_type ?? "application/octet-stream",
+    url:
+      block.source_type === "text" ? undefined : getMediaContentBlockUrl(block),
+  }));
+}
+
+function formatJson(value: unknown): string {
+  if (typeof value === "string") {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch {
+      return value;
+    }
+  }
+  return JSON.stringify(value, null, 2);
+}
+
+function getDocumentTitle(options: ExportOptions): string {
+  return options.title || options.threadId || "Conversation";
+}
+
+export function messagesToMarkdown(
+  messages: Message[],
+  options: ExportOptions = {},
+): string {
+  const lines: string[] = [`# ${getDocumentTitle(options)}`, ""];
+  if (options.threadId) {
+    lines.push(`Thread ID: \`${options.threadId}\``, "");
+  }
+
+  messages.filter(isExportableMessage).forEach((message) => {
+    lines.push(`## ${ROLE_LABELS[message.type] ?? message.type}`, "");
+
+    const text = getContentString(message.content);
+    if (message.type === "tool") {
+      lines.push(
+        `**Tool result:** \`${message.name ?? "unknown"}\`` +
+          (message.tool_call_id ? ` (\`${message.tool_call_id}\`)` : ""),
+        "",
+        "```",
+        formatJson(text || message.content),
+        "```",
+        "",
+      );
+    } else if (text) {
+      lines.push(text, "");
+    }
+
+    getMessageImages(message.content).forEach((image) => {
+      lines.push(`![${image.name ?? "image"}](${image.src})`, "");
+    });
+
+    const attachments = getMessageAttachments(message.content);
+    attachments.forEach((attachment) => {
+      lines.push(
+        attachment.url
+          ? `- Attachment: [${attachment.name}](${attachment.url}) (${attachment.mimeType})`
+          : `- Attachment: ${attachment.name} (${attachment.mimeType})`,
+      );
+    });
+    if (attachments.length > 0) lines.push("");
+
+    if (message.type === "ai") {
+      message.tool_calls?.forEach((tc) => {
+        lines.push(
+          `**Tool call:** \`${tc.name}\`` + (tc.id ? ` (\`${tc.id}\`)` : ""),
+          "",
+          "```json",
+          formatJson(tc.args),
+          "```",
+          "",
+        );
+      });
+    }
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Serializes messages in the same shape as `StateType.messages`, so the
+ * file can be imported back into a thread.
+ */
+export function messagesToJson(messages: Message[]): string {
+  return JSON.stringify(messages, null, 2);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+async function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Inline remote images so the exported file renders offline. Images that
+// can't be fetched (e.g. due to CORS) keep their original URL.
+async function embedImage(src: string): Promise<string> {
+  if (src.startsWith("data:")) return src;
+  try {
+    const response = await fetch(src);
+    if (!response.ok) return src;
+    return await blobToDataUrl(await response.blob());
+  } catch {
+    return src;
+  }
+}
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; line-height: 1.6; }
+  header { border-bottom: 1px solid #e5e7eb; margin-bottom: 1.5rem; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 0.75rem; }
+  .message.human { background: #f3f4f6; margin-left: 4rem; }
+  .message.tool { background: #f9fafb; border: 1px solid #e5e7eb; }
+  .role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; color: #6b7280; }
+  .text { white-space: pre-wrap; }
+  pre { background: #111827; color: #f9fafb; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; font-size: 0.8rem; }
+  img { max-width: 100%; max-height: 24rem; border-radius: 0.5rem; border: 1px solid #e5e7eb; margin-top: 0.5rem; }
+  code { font-family: ui-monospace, monospace; }
+`;
+
+/**
+ * Renders a self-contained HTML document. Images are embedded as data URLs
+ * wherever they can be fetched.
+ */
+export async function messagesToHtml(
+  messages: Message[],
+  options: ExportOptions = {},
+): Promise<string> {
+  const title = escapeHtml(getDocumentTitle(options));
+
+  const sections = await Promise.all(
+    messages.filter(isExportableMessage).map(async (message) => {
+      const parts: string[] = [
+        `<div class="role">${escapeHtml(ROLE_LABELS[message.type] ?? message.type)}</div>`,
+      ];
+      const text = getContentString(message.content);
+
+      if (message.type === "tool") {
+        parts.push(
+          `<div>Tool result: <code>${escapeHtml(message.name ?? "unknown")}</code></div>`,
+          `<pre><code>${escapeHtml(formatJson(text || message.content))}</code></pre>`,
+        );
+      } else if (text) {
+        parts.push(`<div class="text">${escapeHtml(text)}</div>`);
+      }
+
+      const images = await Promise.all(
+        getMessageImages(message.content).map(async (image) => {
+          const src = await embedImage(image.src);
+          return `<img src="${escapeHtml(src)}" alt="${escapeHtml(image.name ?? "image")}" />`;
+        }),
+      );
+      parts.push(...images);
+
+      getMessageAttachments(message.content).forEach((attachment) => {
+        const label = `${escapeHtml(attachment.name)} (${escapeHtml(attachment.mimeType)})`;
+        parts.push(
+          attachment.url
+            ? `<div>Attachment: <a href="${escapeHtml(attachment.url)}" download="${escapeHtml(attachment.name)}">${label}</a></div>`
+            : `<div>Attachment: ${label}</div>`,
+        );
+      });
+
+      if (message.type === "ai") {
+        message.tool_calls?.forEach((tc) => {
+          parts.push(
+            `<div>Tool call: <code>${escapeHtml(tc.name)}</code></div>`,
+            `<pre><code>${escapeHtml(formatJson(tc.args))}</code></pre>`,
+          );
+        });
+      }
+
+      return `<section class="message ${escapeHtml(message.type)}">${parts.join("\n")}</section>`;
+    }),
+  );
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${title}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${title}</h1>
+${options.threadId ? `<p>Thread ID: <code>${escapeHtml(options.threadId)}</code></p>` : ""}
+<p>Exported ${escapeHtml(new Date().toISOString())}</p>
+</header>
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+const EXPORT_FILE_TYPES: Record<
+  ExportFormat,
+  { extension: string; mimeType: string }
+> = {
+  markdown: { extension: "md", mimeType: "text/markdown" },
+  json: { extension: "json", mimeType: "application/json" },
+  html: { extension: "html", mimeType: "text/html" },
+};
+
+function toFileName(options: ExportOptions, extension: string): string {
+  const base = getDocumentTitle(options)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${base || "conversation"}.${extension}`;
+}
+
+export function downloadFile(
+  content: string,
+  fileName: string,
+  mimeType: string,
+) {
+  downloadBlob(
+    new Blob([content], { type: `${mimeType};charset=utf-8` }),
+    fileName,
+  );
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Serializes the conversation in the given format and downloads it.
+ */
+export async function exportThread(
+  messages: Message[],
+  format: ExportFormat,
+  options: ExportOptions = {},
+) {
+  const content =
+    format === "markdown"
+      ? messagesToMarkdown(messages, options)
+      : format === "json"
+        ? messagesToJson(messages)
+        : await messagesToHtml(messages, options);
+
+  const { extension, mimeType } = EXPORT_FILE_TYPES[format];
+  downloadFile(content, toFileName(options, extension), mimeType);
+}
@@ -0,0 +1,155 @@
+export const IMAGE_QUALITY_PRESETS = {
+  high: { label: "High", maxDimension: 2560, quality: 0.9 },
+  balanced: { label: "Balanced", maxDimension: 1920, quality: 0.8 },
+  small: { label: "Small", maxDimension: 1024, quality: 0.7 },
+} as const;
+
+export type ImageQualityPreset = keyof typeof IMAGE_QUALITY_PRESETS;
+
+export const IMAGE_QUALITY_PRESET_NAMES = Object.keys(
+  IMAGE_QUALITY_PRESETS,
+) as ImageQualityPreset[];
+
+export interface ImageProcessingOptions {
+  maxDimension: number;
+  /** Encoder quality between 0 and 1, ignored for PNG output */
+  quality: number;
+}
+
+export interface ProcessedImage {
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  originalSize: number;
+  resized: boolean;
+}
+
+// Formats models don't accept but browsers can decode (HEIC only in Safari)
+export const CONVERTIBLE_IMAGE_TYPES = [
+  "image/heic",
+  "image/heif",
+  "image/avif",
+] as const;
+
+export function isConvertibleImageType(mimeType: string): boolean {
+  return (CONVERTIBLE_IMAGE_TYPES as readonly string[]).includes(mimeType);
+}
+
+/**
+ * Scales `width` and `height` down to fit within `maxDimension`, keeping the
+ * aspect ratio. Images that already fit are returned unchanged.
+ */
+export function getTargetDimensions(
+  width: number,
+  height: number,
+  maxDimension: number,
+): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+/**
+ * Returns true if a GIF has more than one frame, by counting its graphic
+ * control extension blocks.
+ */
+export function isAnimatedGif(bytes: Uint8Array): boolean {
+  let frames = 0;
+  for (let i = 0; i < bytes.length - 2; i += 1) {
+    if (bytes[i] === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 0x04) {
+      frames += 1;
+      if (frames > 1) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Type the image is re-encoded as. HEIC and AVIF become JPEG, and GIFs are
+ * reduced to their first frame as PNG since most models reject animations.
+ */
+export function getOutputMimeType(mimeType: string): string {
+  if (isConvertibleImageType(mimeType)) return "image/jpeg";
+  if (mimeType === "image/gif") return "image/png";
+  return mimeType;
+}
+
+/**
+ * Prepares an image for sending to a model. The image is decoded with its
+ * EXIF orientation applied, scaled to fit the preset's max dimension, and
+ * re-encoded, which also drops EXIF metadata such as GPS location.
+ * Single-frame GIFs carry no EXIF data and are returned as-is when they fit.
+ */
+export async function processImage(
+  file: File,
+  mimeType: string,
+  options: ImageProcessingOptions,
+): Promise<ProcessedImage> {
+  const isGif = mimeType === "image/gif";
+  const animated =
+    isGif && isAnimatedGif(new Uint8Array(await file.arrayBuffer()));
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new Error(
+      isConvertibleImageType(mimeType)
+        ? `This browser can't convert ${file.name}. Please convert it to JPEG or PNG first.`
+        : `Couldn't read image ${file.name}.`,
+    );
+  }
+
+  const { width, height } = getTargetDimensions(
+    bitmap.width,
+    bitmap.height,
+    options.maxDimension,
+  );
+  const resized = width !== bitmap.width || height !== bitmap.height;
+
+  if (isGif && !animated && !resized) {
+    bitmap.close();
+    return {
+      blob: file,
+      mimeType,
+      width,
+      height,
+      originalSize: file.size,
+      resized,
+    };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  const outputType = getOutputMimeType(mimeType);
+  if (outputType === "image/jpeg") {
+    // JPEG has no alpha channel, so flatten transparency onto white
+    ctx.fillStyle = "#fff";
+    ctx.fillRect(0, 0, width, height);
+  }
+  // Drawing an animated GIF's bitmap only draws its first frame
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (b) => (b ? resolve(b) : reject(new Error("Failed to encode image"))),
+      outputType,
+      options.quality,
+    ),
+  );
+  return {
+    blob,
+    // Browsers fall back to PNG for types they can't encode
+    mimeType: blob.type || outputType,
+    width,
+    height,
+    originalSize: file.size,
+    resized,
+  };
+}
@@ -0,0 +1,49 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { z } from "zod";
+
+const messageSchema = z
+  .object({
+    type: z.enum(["human", "ai", "tool", "system", "function", "remove"]),
+    content: z.union([z.string(), z.array(z.record(z.unknown()))]),
+    id: z.string().optional(),
+    tool_call_id: z.string().optional(),
+  })
+  .passthrough()
+  .refine((m) => m.type !== "tool" || !!m.tool_call_id, {
+    message: "Tool messages must have a tool_call_id",
+  });
+
+// Accept a bare `Message[]` (as written by the JSON export), or a state
+// object with a `messages` key.
+const transcriptSchema = z.union([
+  z.array(messageSchema),
+  z.object({ messages: z.array(messageSchema) }).passthrough(),
+]);
+
+/**
+ * Parses and validates a JSON transcript. Throws an `Error` describing the
+ * first problem found if the file isn't a valid list of messages.
+ */
+export function parseTranscript(text: string): Message[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const result = transcriptSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length ? ` at ${issue.path.join(".")}` : "";
+    throw new Error(`Invalid transcript${path}: ${issue.message}`);
+  }
+
+  const messages = Array.isArray(result.data)
+    ? result.data
+    : result.data.messages;
+  if (messages.length === 0) {
+    throw new Error("Transcript contains no messages");
+  }
+  return messages as Message[];
+}
@@ -0,0 +1,166 @@
+/**
+ * The subset of JSON Schema produced for LangGraph graphs, from Pydantic
+ * models, TypedDicts and Zod schemas.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  definitions?: Record<string, JsonSchema>;
+  $defs?: Record<string, JsonSchema>;
+  minimum?: number;
+  maximum?: number;
+}
+
+export type SchemaFieldKind =
+  | "text"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "enum"
+  /** An array of strings */
+  | "list";
+
+export interface SchemaField {
+  name: string;
+  label: string;
+  description?: string;
+  kind: SchemaFieldKind;
+  /** Allowed values of `enum` fields */
+  options?: (string | number)[];
+  default?: unknown;
+  required: boolean;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Follows `$ref`s into the root schema's definitions and unwraps the
+ * wrappers used for optional fields, e.g. `anyOf: [{...}, {type: "null"}]`.
+ */
+export function resolveSchema(
+  schema: JsonSchema,
+  root: JsonSchema,
+): JsonSchema {
+  if (schema.$ref) {
+    const [, section, name] =
+      schema.$ref.match(/^#\/(\$defs|definitions)\/(.+)$/) ?? [];
+    const target = section
+      ? root[section as "$defs" | "definitions"]?.[name]
+      : undefined;
+    if (!target) return {};
+    // Keep the referencing schema's title, description and default
+    const { $ref: _ref, ...rest } = schema;
+    return { ...resolveSchema(target, root), ...rest };
+  }
+
+  if (schema.allOf?.length === 1) {
+    const { allOf, ...rest } = schema;
+    return { ...resolveSchema(allOf[0], root), ...rest };
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    const nonNull = variants.filter((v) => v.type !== "null");
+    const { anyOf: _anyOf, oneOf: _oneOf, ...rest } = schema;
+    if (nonNull.length === 1) {
+      return { ...resolveSchema(nonNull[0], root), ...rest };
+    }
+    // Literal unions, e.g. `Literal["a", "b"]` in some Pydantic versions
+    if (nonNull.length > 0 && nonNull.every((v) => "const" in v)) {
+      return { ...rest, enum: nonNull.map((v) => v.const) };
+    }
+  }
+
+  return schema;
+}
+
+function getFieldKind(
+  schema: JsonSchema,
+  root: JsonSchema,
+): SchemaFieldKind | undefined {
+  if (
+    schema.enum?.every((v) => typeof v === "string" || typeof v === "number")
+  ) {
+    return "enum";
+  }
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+  const type = types.find((t) => t !== "null");
+  switch (type) {
+    case "string":
+      return "text";
+    case "number":
+      return "number";
+    case "integer":
+      return "integer";
+    case "boolean":
+      return "boolean";
+    case "array":
+      return schema.items && resolveSchema(schema.items, root).type === "string"
+        ? "list"
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function toLabel(name: string): string {
+  const words = name.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/[_-]+/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Returns the form fields for an object schema's properties. Arrays of
+ * strings become "list" fields; properties of types without a form field,
+ * such as objects and other arrays, are left out.
+ */
+export function getSchemaFields(
+  schema: JsonSchema,
+  root: JsonSchema = schema,
+): SchemaField[] {
+  const resolved = resolveSchema(schema, root);
+  const required = new Set(resolved.required ?? []);
+
+  return Object.entries(resolved.properties ?? {}).flatMap(
+    ([name, property]) => {
+      const field = resolveSchema(property, root);
+      const kind = getFieldKind(field, root);
+      if (!kind) return [];
+      return [
+        {
+          name,
+          label: field.title ?? toLabel(name),
+          description: field.description,
+          kind,
+          options:
+            kind === "enum" ? (field.enum as (string | number)[]) : undefined,
+          default: field.default,
+          required: required.has(name),
+          minimum: field.minimum,
+          maximum: field.maximum,
+        },
+      ];
+    },
+  );
+}
+
+/**
+ * Returns the schema of `config.configurable`. Older servers describe the
+ * whole config, with the configurable fields nested under `configurable`.
+ */
+export function getConfigurableSchema(configSchema: JsonSchema): JsonSchema {
+  const configurable = configSchema.properties?.configurable;
+  return configurable
+    ? resolveSchema(configurable, configSchema)
+    : configSchema;
+}
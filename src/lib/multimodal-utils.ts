@@ -1,18 +1,58 @@
-import type { Base64ContentBlock } from "@langchain/core/messages";
+import type {
+  Base64ContentBlock,
+  URLContentBlock,
+} from "@langchain/core/messages";
 import { toast } from "sonner";
+import {
+  CONVERTIBLE_IMAGE_TYPES,
+  IMAGE_QUALITY_PRESETS,
+  isConvertibleImageType,
+  processImage,
+  type ImageQualityPreset,
+  type ProcessedImage,
+} from "./image-processing";
 
-// Extended content block type that supports both base64 and URL sources
-export interface ExtendedContentBlock extends Omit<Base64ContentBlock, 'source_type'> {
-  source_type: "base64" | "url";
-  metadata?: {
-    name?: string;
-    size?: number;
-    lastModified?: number;
-    isObjectUrl?: boolean;
-    resized?: boolean;
-  };
+export type ContentBlockMetadata = {
+  name?: string;
+  /** File name forwarded to providers which require one for file inputs */
+  filename?: string;
+  size?: number;
+  /** Size of the file as selected, before image processing */
+  originalSize?: number;
+  lastModified?: number;
+  isObjectUrl?: boolean;
+  resized?: boolean;
+  /** Page count of PDF attachments, when it could be determined */
+  pages?: number;
+  /** Duration of audio attachments, in seconds */
+  duration?: number;
+};
+
+export interface Base64MediaContentBlock
+  extends Omit<Base64ContentBlock, "metadata"> {
+  metadata?: ContentBlockMetadata;
+}
+
+export interface URLMediaContentBlock
+  extends Omit<URLContentBlock, "metadata"> {
+  metadata?: ContentBlockMetadata;
 }
 
+// Image, audio and file content blocks with either base64 or URL sources
+export type MediaContentBlock = Base64MediaContentBlock | URLMediaContentBlock;
+
+// Text, Markdown and CSV files are sent as plain text so any model can read them
+export interface TextFileContentBlock {
+  type: "file";
+  source_type: "text";
+  mime_type: string;
+  text: string;
+  metadata?: ContentBlockMetadata;
+}
+
+// Extended content block type that supports base64, URL and plain text sources
+export type ExtendedContentBlock = MediaContentBlock | TextFileContentBlock;
+
 // Image types supported by LangGraph platforms
 export const SUPPORTED_IMAGE_TYPES = [
   "image/jpeg",
@@ -21,22 +61,111 @@ export const SUPPORTED_IMAGE_TYPES = [
   "image/webp",
 ] as const;
 
+export const SUPPORTED_DOCUMENT_TYPES = ["application/pdf"] as const;
+
+export const SUPPORTED_TEXT_TYPES = [
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+] as const;
+
+export const SUPPORTED_AUDIO_TYPES = [
+  "audio/mpeg",
+  "audio/wav",
+  "audio/x-wav",
+  "audio/ogg",
+  "audio/webm",
+  "audio/mp4",
+  "audio/x-m4a",
+  "audio/aac",
+  "audio/flac",
+] as const;
+
+// Browsers report an empty type for Markdown and an Excel type for CSV on
+// some platforms, so these extensions take precedence over `File.type`
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  txt: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  csv: "text/csv",
+  pdf: "application/pdf",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  m4a: "audio/mp4",
+  heic: "image/heic",
+  heif: "image/heif",
+  avif: "image/avif",
+};
+
+// Value for the `accept` attribute of file inputs
+export const SUPPORTED_FILE_ACCEPT = [
+  ...SUPPORTED_IMAGE_TYPES,
+  ...CONVERTIBLE_IMAGE_TYPES,
+  ...SUPPORTED_DOCUMENT_TYPES,
+  ...SUPPORTED_TEXT_TYPES,
+  ...SUPPORTED_AUDIO_TYPES,
+  ...Object.keys(EXTENSION_MIME_TYPES).map((ext) => `.${ext}`),
+].join(",");
+
+export type AttachmentKind = "image" | "pdf" | "text" | "audio";
+
+export function getFileMimeType(file: File): string {
+  const extension = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_MIME_TYPES[extension] ?? file.type;
+}
+
+export function getAttachmentKind(
+  mimeType: string,
+): AttachmentKind | undefined {
+  if ((SUPPORTED_IMAGE_TYPES as readonly string[]).includes(mimeType)) {
+    return "image";
+  }
+  if ((SUPPORTED_DOCUMENT_TYPES as readonly string[]).includes(mimeType)) {
+    return "pdf";
+  }
+  if ((SUPPORTED_TEXT_TYPES as readonly string[]).includes(mimeType)) {
+    return "text";
+  }
+  if ((SUPPORTED_AUDIO_TYPES as readonly string[]).includes(mimeType)) {
+    return "audio";
+  }
+  return undefined;
+}
+
+export function isSupportedFile(file: File): boolean {
+  const mimeType = getFileMimeType(file);
+  return (
+    isConvertibleImageType(mimeType) ||
+    getAttachmentKind(mimeType) !== undefined
+  );
+}
+
 // Maximum file size for direct embedding (500KB - conservative to avoid 413 errors)
 const MAX_EMBEDDED_SIZE = 500 * 1024;
 // Maximum file size for images (10MB - AWS API Gateway safe limit)
 const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+// Maximum size for other files
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
 
 // Returns a Promise of a typed multimodal block following LangGraph best practices
 export async function fileToContentBlock(
   file: File,
+  imageQuality: ImageQualityPreset = "balanced",
 ): Promise<ExtendedContentBlock> {
   // Validate file type
-  if (!SUPPORTED_IMAGE_TYPES.includes(file.type as any)) {
+  const mimeType = getFileMimeType(file);
+  const kind = isConvertibleImageType(mimeType)
+    ? "image"
+    : getAttachmentKind(mimeType);
+  if (!kind) {
     toast.error(
-      `Unsupported file type: ${file.type}. Please upload JPEG, PNG, GIF, or WEBP images only.`,
+      `Unsupported file type: ${file.type || file.name}. Please upload images, PDFs, text, Markdown, CSV or audio files.`,
     );
     return Promise.reject(new Error(`Unsupported file type: ${file.type}`));
   }
+  if (kind !== "image") {
+    return fileToFileContentBlock(file, kind, mimeType);
+  }
 
   // Validate file size
   if (file.size > MAX_IMAGE_SIZE) {
@@ -46,42 +175,155 @@ export async function fileToContentBlock(
     return Promise.reject(new Error(`Image too large: ${file.size} bytes`));
   }
 
+  // Resize, fix orientation and strip metadata before the image leaves the browser
+  let image: ProcessedImage;
+  try {
+    image = await processImage(
+      file,
+      mimeType,
+      IMAGE_QUALITY_PRESETS[imageQuality],
+    );
+  } catch (error) {
+    toast.error(
+      error instanceof Error ? error.message : `Couldn't process ${file.name}`,
+    );
+    return Promise.reject(error);
+  }
+
+  const metadata: ContentBlockMetadata = {
+    name: file.name,
+    size: image.blob.size,
+    originalSize: file.size,
+    lastModified: file.lastModified,
+    resized: image.resized,
+  };
+
   // For very small files, embed as base64. For larger files, use object URL to avoid payload limits
-  if (file.size <= MAX_EMBEDDED_SIZE) {
-    const data = await fileToBase64(file);
-    
+  if (image.blob.size <= MAX_EMBEDDED_SIZE) {
     return {
       type: "image",
       source_type: "base64",
-      mime_type: file.type,
-      data,
-      metadata: {
-        name: file.name,
-        size: file.size,
-        lastModified: file.lastModified,
-      },
+      mime_type: image.mimeType,
+      data: await fileToBase64(image.blob),
+      metadata,
     };
   } else {
-    // For larger files, use object URL to avoid embedding in message payload
-    const objectUrl = URL.createObjectURL(file);
-    
+    // For larger files, use object URL to avoid embedding in message payload.
+    // The file is uploaded to /api/uploads when the message is sent.
     return {
       type: "image",
       source_type: "url",
-      mime_type: file.type,
-      data: objectUrl,
-      metadata: {
-        name: file.name,
-        size: file.size,
-        lastModified: file.lastModified,
-        isObjectUrl: true,
-      },
+      mime_type: image.mimeType,
+      url: URL.createObjectURL(image.blob),
+      metadata: { ...metadata, isObjectUrl: true },
+    };
+  }
+}
+
+async function fileToFileContentBlock(
+  file: File,
+  kind: Exclude<AttachmentKind, "image">,
+  mimeType: string,
+): Promise<ExtendedContentBlock> {
+  if (file.size > MAX_FILE_SIZE) {
+    toast.error(
+      `File too large: ${formatFileSize(file.size)}. Maximum size is ${formatFileSize(MAX_FILE_SIZE)}.`,
+    );
+    return Promise.reject(new Error(`File too large: ${file.size} bytes`));
+  }
+
+  const metadata: ContentBlockMetadata = {
+    name: file.name,
+    filename: file.name,
+    size: file.size,
+    lastModified: file.lastModified,
+  };
+
+  if (kind === "text") {
+    return {
+      type: "file",
+      source_type: "text",
+      mime_type: mimeType,
+      text: await file.text(),
+      metadata,
+    };
+  }
+
+  if (kind === "audio") {
+    metadata.duration = await getAudioDuration(file);
+  } else {
+    metadata.pages = await getPdfPageCount(file);
+  }
+
+  // As with images, larger files are uploaded when the message is sent
+  const type = kind === "audio" ? "audio" : "file";
+  if (file.size <= MAX_EMBEDDED_SIZE) {
+    return {
+      type,
+      source_type: "base64",
+      mime_type: mimeType,
+      data: await fileToBase64(file),
+      metadata,
     };
   }
+  return {
+    type,
+    source_type: "url",
+    mime_type: mimeType,
+    url: URL.createObjectURL(file),
+    metadata: { ...metadata, isObjectUrl: true },
+  };
+}
+
+// Counts uncompressed page objects. PDFs which pack their page tree into
+// compressed object streams report no page count rather than a wrong one.
+async function getPdfPageCount(file: File): Promise<number | undefined> {
+  const text = new TextDecoder("latin1").decode(await file.arrayBuffer());
+  const pages = text.match(/\/Type\s*\/Page\b/g)?.length ?? 0;
+  return pages > 0 ? pages : undefined;
+}
+
+function getAudioDuration(file: File): Promise<number | undefined> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const done = (duration?: number) => {
+      URL.revokeObjectURL(url);
+      // Some recordings (e.g. MediaRecorder WebM) report an infinite duration
+      resolve(
+        duration !== undefined && Number.isFinite(duration)
+          ? duration
+          : undefined,
+      );
+    };
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done();
+    audio.src = url;
+  });
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
+export function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+}
+
+// URL a media block can be displayed or fetched from, which is a data URL for
+// base64 blocks
+export function getMediaContentBlockUrl(block: MediaContentBlock): string {
+  return block.source_type === "base64"
+    ? `data:${block.mime_type};base64,${block.data}`
+    : block.url;
 }
 
 // Helper to convert File to base64 string
-export async function fileToBase64(file: File): Promise<string> {
+export async function fileToBase64(file: Blob): Promise<string> {
   return new Promise<string>((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -97,7 +339,7 @@ export async function fileToBase64(file: File): Promise<string> {
 // Type guard for ContentBlock (images - both base64 and URL)
 export function isImageContentBlock(
   block: unknown,
-): block is ExtendedContentBlock {
+): block is MediaContentBlock {
   if (typeof block !== "object" || block === null || !("type" in block))
     return false;
 
@@ -105,16 +347,43 @@ export function isImageContentBlock(
   return (
     (block as { type: unknown }).type === "image" &&
     "source_type" in block &&
-    ((block as { source_type: unknown }).source_type === "base64" ||
-     (block as { source_type: unknown }).source_type === "url") &&
+    (((block as { source_type: unknown }).source_type === "base64" &&
+      typeof (block as { data?: unknown }).data === "string") ||
+     ((block as { source_type: unknown }).source_type === "url" &&
+      typeof (block as { url?: unknown }).url === "string")) &&
     "mime_type" in block &&
     typeof (block as { mime_type?: unknown }).mime_type === "string" &&
-    (block as { mime_type: string }).mime_type.startsWith("image/") &&
-    "data" in block &&
-    typeof (block as { data?: unknown }).data === "string"
+    (block as { mime_type: string }).mime_type.startsWith("image/")
+  );
+}
+
+// Type guard for non-image attachments (audio, PDF and text files)
+export function isFileContentBlock(
+  block: unknown,
+): block is ExtendedContentBlock {
+  if (typeof block !== "object" || block === null) return false;
+  const { type, source_type, mime_type, data, url, text } = block as Record<
+    string,
+    unknown
+  >;
+  if (type !== "file" && type !== "audio") return false;
+  if (typeof mime_type !== "string") return false;
+  if (source_type === "text") {
+    return type === "file" && typeof text === "string";
+  }
+  return (
+    (source_type === "base64" && typeof data === "string") ||
+    (source_type === "url" && typeof url === "string")
   );
 }
 
+// Type guard for any block rendered as an attachment preview
+export function isAttachmentContentBlock(
+  block: unknown,
+): block is ExtendedContentBlock {
+  return isImageContentBlock(block) || isFileContentBlock(block);
+}
+
 // Legacy function for backward compatibility
 export function isBase64ContentBlock(
   block: unknown,
@@ -128,57 +397,8 @@ export function cleanupObjectUrls(contentBlocks: ExtendedContentBlock[]) {
   contentBlocks.forEach(block => {
     if (block.source_type === "url" && 
         block.metadata?.isObjectUrl && 
-        block.data.startsWith('blob:')) {
-      URL.revokeObjectURL(block.data);
+        block.url.startsWith('blob:')) {
+      URL.revokeObjectURL(block.url);
     }
   });
 }
-
-// Convert object URL content blocks to base64 for API submission
-export async function convertObjectUrlsToBase64(
-  contentBlocks: ExtendedContentBlock[]
-): Promise<ExtendedContentBlock[]> {
-  const convertedBlocks = await Promise.all(
-    contentBlocks.map(async (block) => {
-      // Only convert object URLs, leave base64 blocks as-is
-      if (block.source_type !== "url" || !block.metadata?.isObjectUrl || !block.data.startsWith('blob:')) {
-        return block;
-      }
-
-      try {
-        // Fetch the blob data from the object URL
-        const response = await fetch(block.data);
-        const blob = await response.blob();
-        
-        // Convert blob to base64
-        const base64Data = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onloadend = () => {
-            const result = reader.result as string;
-            // Remove the data:...;base64, prefix
-            resolve(result.split(",")[1]);
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
-
-        // Return converted block
-        return {
-          ...block,
-          source_type: "base64" as const,
-          data: base64Data,
-          metadata: {
-            ...block.metadata,
-            isObjectUrl: false, // No longer an object URL
-          },
-        };
-      } catch (error) {
-        console.error("Failed to convert object URL to base64:", error);
-        // Return original block if conversion fails
-        return block;
-      }
-    })
-  );
-
-  return convertedBlocks;
-}
@@ -0,0 +1,37 @@
+import type { Message } from "@langchain/langgraph-sdk";
+
+/**
+ * How a message sent while a run is in progress is handled, mapped to
+ * LangGraph's `multitaskStrategy`:
+ * - `enqueue`: wait for the current run to finish.
+ * - `interrupt`: stop the current run, keeping its progress, and send.
+ * - `rollback`: stop the current run, discarding its progress, and send.
+ */
+export const QUEUE_STRATEGIES = ["enqueue", "interrupt", "rollback"] as const;
+
+export type QueueStrategy = (typeof QUEUE_STRATEGIES)[number];
+
+export const QUEUE_STRATEGY_LABELS: Record<
+  QueueStrategy,
+  { label: string; description: string }
+> = {
+  enqueue: {
+    label: "Queue",
+    description: "Send after the current run finishes",
+  },
+  interrupt: {
+    label: "Interrupt",
+    description: "Stop the current run and send now",
+  },
+  rollback: {
+    label: "Rollback",
+    description: "Discard the current run and send now",
+  },
+};
+
+export interface QueuedMessage {
+  id: string;
+  content: Message["content"];
+  /** Input keys sent alongside the message, from the advanced input form */
+  input?: Record<string, unknown>;
+}
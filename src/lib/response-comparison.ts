@@ -0,0 +1,123 @@
+import type { Message, Metadata } from "@langchain/langgraph-sdk";
+import { getContentString } from "@/components/thread/utils";
+import { getNodeMessages, PATH_SEP, type TreeSequence } from "./branch-tree";
+
+/**
+ * Thread metadata key holding the responses preferred when comparing
+ * regenerated answers, keyed by the checkpoint the answers branch from.
+ */
+export const PREFERRED_RESPONSES_METADATA_KEY = "preferred_responses";
+
+// Parent of branches which start at the beginning of the thread, as in the SDK
+const ROOT_CHECKPOINT_ID = "$";
+
+export interface ResponsePreference {
+  /** Branch of the preferred response */
+  branch: string;
+  message_id?: string;
+  /** Branches of every response that was compared */
+  compared: string[];
+  created_at: string;
+}
+
+export type ResponsePreferences = Record<string, ResponsePreference>;
+
+export interface BranchResponse {
+  /** Passed to `setBranch` to switch to this response */
+  branch: string;
+  messageId?: string;
+  text: string;
+}
+
+/** Checkpoint which a branch forks from, shared by all its sibling branches */
+export function getForkCheckpointId(branch: string): string {
+  return branch.split(PATH_SEP).at(-2) ?? ROOT_CHECKPOINT_ID;
+}
+
+export function getResponsePreferences(
+  metadata: Metadata | undefined,
+): ResponsePreferences {
+  const preferences = metadata?.[PREFERRED_RESPONSES_METADATA_KEY];
+  return preferences && typeof preferences === "object"
+    ? (preferences as ResponsePreferences)
+    : {};
+}
+
+// Finds the sequence of a branch, along with the messages before it forked
+function findBranch(tree: TreeSequence, branch: string) {
+  let sequence = tree;
+  let messages: Message[] = [];
+
+  for (const checkpointId of branch.split(PATH_SEP)) {
+    let next: TreeSequence | undefined;
+    for (const item of sequence.items) {
+      if (item.type === "node") {
+        messages = getNodeMessages(item);
+      } else {
+        next = item.items.find((child) => {
+          const first = child.items[0];
+          return (
+            first?.type === "node" &&
+            first.value.checkpoint.checkpoint_id === checkpointId
+          );
+        });
+      }
+    }
+    if (!next) return undefined;
+    sequence = next;
+  }
+  return { sequence, parentMessages: messages };
+}
+
+// Messages at the end of a branch, following the latest branch at each
+// later fork like `setBranch` does
+function getLatestMessages(sequence: TreeSequence): Message[] {
+  let messages: Message[] = [];
+  let current: TreeSequence | undefined = sequence;
+  while (current) {
+    const items: TreeSequence["items"] = current.items;
+    current = undefined;
+    for (const item of items) {
+      if (item.type === "node") messages = getNodeMessages(item);
+      else current = item.items.at(-1);
+    }
+  }
+  return messages;
+}
+
+/**
+ * The AI responses of sibling branches, e.g. the answers produced by
+ * regenerating a message. A response is the text of every AI message added
+ * by its branch before the next human message.
+ */
+export function getBranchResponses(
+  tree: TreeSequence,
+  branches: string[],
+): BranchResponse[] {
+  return branches.flatMap((branch) => {
+    const found = findBranch(tree, branch);
+    if (!found) return [];
+
+    const parentIds = new Set(found.parentMessages.map((m) => m.id));
+    const added = getLatestMessages(found.sequence).filter(
+      (m) => !parentIds.has(m.id),
+    );
+    const nextHumanIndex = added.findIndex(
+      (m, i) => i > 0 && m.type === "human",
+    );
+    const aiMessages = (
+      nextHumanIndex === -1 ? added : added.slice(0, nextHumanIndex)
+    ).filter((m) => m.type === "ai");
+
+    return [
+      {
+        branch,
+        messageId: aiMessages[0]?.id,
+        text: aiMessages
+          .map((m) => getContentString(m.content))
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+    ];
+  });
+}
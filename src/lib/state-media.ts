@@ -0,0 +1,182 @@
+/**
+ * Built-in renderer types for media in graph state. Deployments can register
+ * renderers for other types, see `registerStateMediaRenderer`.
+ */
+export const STATE_MEDIA_TYPES = [
+  "image",
+  "video",
+  "audio",
+  "file",
+  "chart",
+] as const;
+
+export type StateMediaType = (typeof STATE_MEDIA_TYPES)[number] | (string & {});
+
+export interface StateMediaField {
+  /** State key holding a URL, base64 data, or an array of either */
+  key: string;
+  type: StateMediaType;
+  /** State key holding a caption, e.g. the prompt an image was generated from */
+  captionKey?: string;
+}
+
+export interface StateMediaItem {
+  field: StateMediaField;
+  value: unknown;
+  caption?: string;
+}
+
+// The keys written by our broker graphs
+export const DEFAULT_STATE_MEDIA_FIELDS: StateMediaField[] = [
+  { key: "image_url", type: "image", captionKey: "image_prompt" },
+  { key: "base64_image", type: "image", captionKey: "image_prompt" },
+  { key: "video_url", type: "video" },
+];
+
+type StateMediaFieldConfig =
+  | StateMediaType
+  | { type: StateMediaType; captionKey?: string };
+
+/**
+ * Parses `NEXT_PUBLIC_STATE_MEDIA_FIELDS`, a JSON object mapping state keys to
+ * a renderer type or `{ type, captionKey }`, e.g.
+ * `{"image_url": {"type": "image", "captionKey": "image_prompt"}, "report": "file"}`.
+ */
+export function parseStateMediaFields(
+  json: string | undefined,
+): StateMediaField[] {
+  if (!json) return DEFAULT_STATE_MEDIA_FIELDS;
+  try {
+    const config = JSON.parse(json) as Record<string, StateMediaFieldConfig>;
+    return Object.entries(config).map(([key, field]) =>
+      typeof field === "string"
+        ? { key, type: field }
+        : { key, type: field.type, captionKey: field.captionKey },
+    );
+  } catch (error) {
+    console.error("Invalid NEXT_PUBLIC_STATE_MEDIA_FIELDS:", error);
+    return DEFAULT_STATE_MEDIA_FIELDS;
+  }
+}
+
+export const STATE_MEDIA_FIELDS = parseStateMediaFields(
+  process.env.NEXT_PUBLIC_STATE_MEDIA_FIELDS,
+);
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Returns the media in `values` which is new since `previousValues`, i.e.
+ * was produced between the two states.
+ */
+export function getChangedStateMedia(
+  fields: StateMediaField[],
+  values: Record<string, unknown>,
+  previousValues?: Record<string, unknown>,
+): StateMediaItem[] {
+  return fields.flatMap((field) => {
+    const value = values[field.key];
+    if (isEmpty(value) || isEqual(value, previousValues?.[field.key])) {
+      return [];
+    }
+    const caption = field.captionKey ? values[field.captionKey] : undefined;
+    return [
+      {
+        field,
+        value,
+        caption: typeof caption === "string" ? caption : undefined,
+      },
+    ];
+  });
+}
+
+type Values = Record<string, unknown>;
+
+/**
+ * Returns the state media produced along with the message at `index`: media
+ * in the first state the message was seen in that differs from the state the
+ * previous AI message was first seen in. Media is only rendered under AI
+ * messages, so changes first seen with tool or human messages, e.g. an image
+ * a tool node wrote along with its tool message, belong to the next AI
+ * message. Changes after the last AI message, or not yet in any seen state
+ * while streaming, belong to the last AI message.
+ *
+ * `seenValues` holds the values of the state each message was first seen in.
+ */
+export function getMessageStateMedia(
+  fields: StateMediaField[],
+  messages: { type: string }[],
+  seenValues: (Values | undefined)[],
+  values: Values,
+  index: number,
+): StateMediaItem[] {
+  if (messages[index]?.type !== "ai") return [];
+
+  // Latest state seen with the messages from `from` to `to`, inclusive
+  const getLatestSeenValues = (from: number, to: number) => {
+    for (let i = to; i >= from; i -= 1) {
+      if (seenValues[i]) return seenValues[i];
+    }
+    return undefined;
+  };
+
+  let start = index;
+  while (start > 0 && messages[start - 1].type !== "ai") start -= 1;
+  const isLastAiMessage = !messages
+    .slice(index + 1)
+    .some((m) => m.type === "ai");
+  const end = isLastAiMessage ? messages.length - 1 : index;
+
+  const previous = getLatestSeenValues(0, start - 1);
+  const seen = getLatestSeenValues(start, end);
+  const items = seen ? getChangedStateMedia(fields, seen, previous) : [];
+
+  if (!isLastAiMessage) return items;
+  const unattributed = getChangedStateMedia(fields, values, seen ?? previous);
+  return [
+    ...items,
+    ...unattributed.filter(
+      (item) => !items.some((i) => i.field.key === item.field.key),
+    ),
+  ];
+}
+
+const DEFAULT_MIME_TYPES: Record<string, string> = {
+  image: "image/png",
+  video: "video/mp4",
+  audio: "audio/mpeg",
+  file: "application/octet-stream",
+};
+
+/**
+ * Returns the URLs to load a media value from. Values may be URLs, base64
+ * data with or without a `data:` prefix, objects with a `url`, or arrays of
+ * any of these.
+ */
+export function getStateMediaSources(
+  value: unknown,
+  type: StateMediaType,
+): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((v) => getStateMediaSources(v, type));
+  }
+  if (value && typeof value === "object" && "url" in value) {
+    return getStateMediaSources(value.url, type);
+  }
+  if (typeof value !== "string" || !value) return [];
+  if (/^(https?:|data:|blob:|\/)/.test(value)) return [value];
+  return [
+    `data:${DEFAULT_MIME_TYPES[type] ?? DEFAULT_MIME_TYPES.file};base64,${value}`,
+  ];
+}
@@ -0,0 +1,52 @@
+import type { AIMessage, Client, Message } from "@langchain/langgraph-sdk";
+import { getContentString } from "@/components/thread/utils";
+
+/**
+ * `response_metadata` key marking an AI message whose run was stopped by the
+ * user before it finished.
+ */
+export const STOPPED_METADATA_KEY = "stopped";
+
+export const CONTINUE_PROMPT = "Continue from where you left off.";
+
+export function isStoppedMessage(message: Message | undefined): boolean {
+  return (
+    message?.type === "ai" &&
+    message.response_metadata?.[STOPPED_METADATA_KEY] === true
+  );
+}
+
+/**
+ * Returns the partial message to save to the thread, or `undefined` if it has
+ * no text worth keeping. Tool calls are dropped since their arguments may be
+ * incomplete, and they would never get a response.
+ */
+export function toStoppedMessage(message: AIMessage): AIMessage | undefined {
+  if (!getContentString(message.content).trim()) return undefined;
+  return {
+    ...message,
+    content: getContentString(message.content),
+    tool_calls: [],
+    invalid_tool_calls: [],
+    response_metadata: {
+      ...message.response_metadata,
+      [STOPPED_METADATA_KEY]: true,
+    },
+  };
+}
+
+/**
+ * Cancels every pending or running run on a thread. Waits for the runs to
+ * finish cancelling, so the thread's state can be updated afterwards.
+ */
+export async function cancelActiveRuns(
+  client: Client,
+  threadId: string,
+): Promise<void> {
+  const runs = await client.runs.list(threadId, { limit: 20 });
+  await Promise.all(
+    runs
+      .filter((run) => run.status === "pending" || run.status === "running")
+      .map((run) => client.runs.cancel(threadId, run.run_id, true)),
+  );
+}
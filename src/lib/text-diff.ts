@@ -0,0 +1,81 @@
+import { diffLines, diffWords } from "diff";
+
+export interface DiffLine {
+  lineNumber: number;
+  text: string;
+  changed: boolean;
+}
+
+/** A row of a side by side diff. A side is empty where lines were added or removed */
+export interface DiffRow {
+  before?: DiffLine;
+  after?: DiffLine;
+}
+
+function splitLines(value: string): string[] {
+  const lines = value.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Compares two texts line by line, pairing removed lines with the lines
+ * added in their place.
+ */
+export function getSideBySideDiff(before: string, after: string): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let beforeLine = 0;
+  let afterLine = 0;
+  let removed: string[] = [];
+
+  const flushRemoved = (added: string[] = []) => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i += 1) {
+      rows.push({
+        before:
+          i < removed.length
+            ? { lineNumber: ++beforeLine, text: removed[i], changed: true }
+            : undefined,
+        after:
+          i < added.length
+            ? { lineNumber: ++afterLine, text: added[i], changed: true }
+            : undefined,
+      });
+    }
+    removed = [];
+  };
+
+  for (const change of diffLines(before, after)) {
+    const lines = splitLines(change.value);
+    if (change.removed) {
+      flushRemoved();
+      removed = lines;
+    } else if (change.added) {
+      flushRemoved(lines);
+    } else {
+      flushRemoved();
+      for (const text of lines) {
+        rows.push({
+          before: { lineNumber: ++beforeLine, text, changed: false },
+          after: { lineNumber: ++afterLine, text, changed: false },
+        });
+      }
+    }
+  }
+  flushRemoved();
+  return rows;
+}
+
+export interface WordDiffPart {
+  text: string;
+  added: boolean;
+  removed: boolean;
+}
+
+/** Compares two texts word by word, keeping whitespace with the words */
+export function getWordDiff(before: string, after: string): WordDiffPart[] {
+  return diffWords(before, after).map((change) => ({
+    text: change.value,
+    added: !!change.added,
+    removed: !!change.removed,
+  }));
+}
@@ -0,0 +1,177 @@
+import type { Message } from "@langchain/langgraph-sdk";
+import { toast } from "sonner";
+import {
+  fileToContentBlock,
+  getMediaContentBlockUrl,
+  isImageContentBlock,
+  type MediaContentBlock,
+} from "./multimodal-utils";
+import type { ImageQualityPreset } from "./image-processing";
+import { getStateMediaSources, type StateMediaField } from "./state-media";
+
+export interface ThreadImage {
+  /** URL the image is displayed from, which may be a data URL */
+  src: string;
+  name?: string;
+  /** Sent by the user, or produced by the assistant */
+  source: "user" | "assistant";
+  caption?: string;
+}
+
+function getMessageImages(message: Message): ThreadImage[] {
+  if (!Array.isArray(message.content)) return [];
+  const source = message.type === "human" ? "user" : "assistant";
+
+  return (message.content as unknown[]).flatMap((block): ThreadImage[] => {
+    if (isImageContentBlock(block)) {
+      return [
+        {
+          src: getMediaContentBlockUrl(block),
+          name: block.metadata?.name,
+          source,
+        },
+      ];
+    }
+    // OpenAI style image blocks
+    const { type, image_url } = block as {
+      type?: string;
+      image_url?: string | { url?: string };
+    };
+    if (type === "image_url") {
+      const url = typeof image_url === "string" ? image_url : image_url?.url;
+      return url ? [{ src: url, source }] : [];
+    }
+    return [];
+  });
+}
+
+/**
+ * Lists every image in a thread in order, from message content and from the
+ * image fields of each state in `states`. Images are listed once, where they
+ * first appear.
+ */
+export function collectThreadImages(
+  messages: Message[],
+  states: Record<string, unknown>[],
+  stateMediaFields: StateMediaField[],
+): ThreadImage[] {
+  const imageFields = stateMediaFields.filter((f) => f.type === "image");
+  const stateImages = states.flatMap((values) =>
+    imageFields.flatMap((field) => {
+      const caption = field.captionKey ? values[field.captionKey] : undefined;
+      return getStateMediaSources(values[field.key], "image").map(
+        (src): ThreadImage => ({
+          src,
+          source: "assistant",
+          caption: typeof caption === "string" ? caption : undefined,
+        }),
+      );
+    }),
+  );
+
+  const seen = new Set<string>();
+  return [...messages.flatMap(getMessageImages), ...stateImages].filter(
+    (image) => {
+      if (seen.has(image.src)) return false;
+      seen.add(image.src);
+      return true;
+    },
+  );
+}
+
+/**
+ * Name to save an image as, from its URL or its type for data URLs.
+ */
+export function getImageFileName(image: ThreadImage, mimeType?: string) {
+  if (image.name) return image.name;
+  const fromUrl = image.src.startsWith("data:")
+    ? undefined
+    : image.src.split(/[?#]/)[0].split("/").pop();
+  if (fromUrl && /\.\w+$/.test(fromUrl)) {
+    try {
+      return decodeURIComponent(fromUrl);
+    } catch {
+      // Malformed escapes, e.g. a stray `%`
+      return fromUrl;
+    }
+  }
+  const extension = mimeType?.split("/")[1]?.replace("jpeg", "jpg") ?? "png";
+  return `image.${extension}`;
+}
+
+export async function fetchImageBlob(src: string): Promise<Blob> {
+  const res = await fetch(src);
+  if (!res.ok) throw new Error(`Failed to fetch image: ${res.status}`);
+  return res.blob();
+}
+
+/**
+ * Copies an image to the clipboard. Browsers only accept PNG, so other types
+ * are converted first.
+ */
+export async function copyImageToClipboard(src: string): Promise<void> {
+  const blob = await fetchImageBlob(src);
+  const png =
+    blob.type === "image/png"
+      ? blob
+      : await createImageBitmap(blob).then((bitmap) => {
+          const canvas = document.createElement("canvas");
+          canvas.width = bitmap.width;
+          canvas.height = bitmap.height;
+          canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+          bitmap.close();
+          return new Promise<Blob>((resolve, reject) =>
+            canvas.toBlob(
+              (b) =>
+                b ? resolve(b) : reject(new Error("Failed to encode image")),
+              "image/png",
+            ),
+          );
+        });
+  await navigator.clipboard.write([new ClipboardItem({ "image/png": png })]);
+}
+
+function guessImageMimeType(src: string): string {
+  const extension = src.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (extension === "jpg" || extension === "jpeg") return "image/jpeg";
+  if (extension === "gif" || extension === "webp") return `image/${extension}`;
+  return "image/png";
+}
+
+/**
+ * Turns a thread image back into an attachment for the composer. Images that
+ * can't be fetched, e.g. cross-origin ones, are attached by URL instead.
+ * Returns `undefined` if the image couldn't be attached, after reporting why.
+ */
+export async function threadImageToContentBlock(
+  image: ThreadImage,
+  imageQuality: ImageQualityPreset,
+): Promise<MediaContentBlock | undefined> {
+  let blob: Blob;
+  try {
+    blob = await fetchImageBlob(image.src);
+  } catch {
+    if (!/^https?:/.test(image.src)) {
+      toast.error("Couldn't read the image");
+      return undefined;
+    }
+    return {
+      type: "image",
+      source_type: "url",
+      mime_type: guessImageMimeType(image.src),
+      url: image.src,
+      metadata: { name: getImageFileName(image) },
+    };
+  }
+
+  const file = new File([blob], getImageFileName(image, blob.type), {
+    type: blob.type,
+  });
+  try {
+    // Images are always converted to media blocks
+    return (await fileToContentBlock(file, imageQuality)) as MediaContentBlock;
+  } catch {
+    // fileToContentBlock reports its own errors
+    return undefined;
+  }
+}
@@ -0,0 +1,57 @@
+import type { Thread } from "@langchain/langgraph-sdk";
+
+/**
+ * Thread metadata key which marks a thread as viewable through its share link.
+ */
+export const SHARED_METADATA_KEY = "shared";
+
+/**
+ * Path segment under `/api` through which shared threads are read. Requests
+ * under it skip authentication, so the API proxy only forwards the read-only
+ * requests listed in `getSharedThreadId` and only for shared threads.
+ */
+export const SHARE_API_PREFIX = "share";
+
+export function isThreadShared(thread: Thread | undefined): boolean {
+  return thread?.metadata?.[SHARED_METADATA_KEY] === true;
+}
+
+export function getShareUrl(threadId: string): string {
+  return `${window.location.origin}/share/${threadId}`;
+}
+
+/**
+ * Returns the thread ID targeted by a request to the share API, or `undefined`
+ * if the request isn't one of the read-only requests needed to render a
+ * shared thread. `path` is the request path below the share prefix.
+ */
+export function getSharedThreadId(
+  path: string[],
+  method: string,
+): string | undefined {
+  const [resource, threadId, action, ...rest] = path;
+  if (resource !== "threads" || !threadId || rest.length > 0) return undefined;
+
+  const isAllowed =
+    (method === "GET" && (action === undefined || action === "state")) ||
+    ((method === "GET" || method === "POST") && action === "history");
+  return isAllowed ? threadId : undefined;
+}
+
+/**
+ * Server-side check that a thread has been shared, fetched directly from the
+ * LangGraph server so it can't be spoofed by the client.
+ */
+export async function fetchIsThreadShared(
+  apiUrl: string,
+  apiKey: string,
+  threadId: string,
+): Promise<boolean> {
+  const res = await fetch(
+    `${apiUrl.replace(/\/$/, "")}/threads/${encodeURIComponent(threadId)}`,
+    { headers: { "x-api-key": apiKey } },
+  );
+  if (!res.ok) return false;
+  const thread = (await res.json()) as Thread;
+  return isThreadShared(thread);
+}
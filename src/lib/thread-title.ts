@@ -0,0 +1,77 @@
+import type { Message, Thread } from "@langchain/langgraph-sdk";
+import { getContentString } from "@/components/thread/utils";
+
+const MAX_TITLE_LENGTH = 60;
+const MAX_TITLE_WORDS = 8;
+
+// Conversational openers that add nothing to a title
+const LEADING_FILLER =
+  /^(hi|hello|hey|please|pls|can you|could you|would you|i want you to|i'd like you to|help me)\b[\s,!.:-]*/i;
+
+/**
+ * Returns the title stored in a thread's metadata, if it has one.
+ */
+export function getThreadTitle(thread: Thread | undefined): string | undefined {
+  const title = thread?.metadata?.title;
+  return typeof title === "string" && title.trim() ? title : undefined;
+}
+
+function toPlainText(markdown: string): string {
+  return (
+    markdown
+      // Code blocks rarely make good titles
+      .replace(/```[\s\S]*?(```|$)/g, " ")
+      .replace(/`([^`]*)`/g, "$1")
+      // Images, then links: keep the link text
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/https?:\/\/\S+/g, " ")
+      .replace(/^\s{0,3}(#{1,6}|>|[-*+]|\d+\.)\s+/gm, "")
+      .replace(/[*_~]/g, "")
+      .replace(/\s+/g, " ")
+      .trim()
+  );
+}
+
+function shorten(text: string): string {
+  let result = text;
+  let previous: string;
+  do {
+    previous = result;
+    result = result.replace(LEADING_FILLER, "");
+  } while (result !== previous);
+
+  const sentence = /^(.+?[.!?])(\s|$)/.exec(result)?.[1] ?? result;
+  const words = sentence.split(" ");
+  let title = words.slice(0, MAX_TITLE_WORDS).join(" ");
+  let truncated = words.length > MAX_TITLE_WORDS;
+  if (title.length > MAX_TITLE_LENGTH) {
+    title = title.slice(0, MAX_TITLE_LENGTH).replace(/\s+\S*$/, "");
+    truncated = true;
+  }
+
+  title = title.replace(/[\s.,;:!-]+$/, "");
+  if (!title) return "";
+  title = title[0].toUpperCase() + title.slice(1);
+  return truncated ? `${title}…` : title;
+}
+
+/**
+ * Derives a short thread title from the first human/AI exchange. The human
+ * message is preferred; if it has no usable text (e.g. it only contains
+ * images), the AI reply is used instead.
+ *
+ * Returns `undefined` until the thread contains both a human and an AI message.
+ */
+export function summarizeThreadTitle(messages: Message[]): string | undefined {
+  const human = messages.find((m) => m.type === "human");
+  const ai = messages.find(
+    (m) => m.type === "ai" && getContentString(m.content).trim(),
+  );
+  if (!human || !ai) return undefined;
+
+  const candidates = [human, ai].map((m) =>
+    shorten(toPlainText(getContentString(m.content))),
+  );
+  return candidates.find(Boolean);
+}
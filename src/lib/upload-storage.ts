@@ -0,0 +1,258 @@
+import { createHash, createHmac } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  stat,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+export interface StoredObject {
+  body: Uint8Array;
+  contentType?: string;
+}
+
+/**
+ * Object storage used by the upload API. Keys are `/`-separated paths
+ * generated by the server, e.g. `files/<uploadId>/<filename>`.
+ */
+export interface UploadStorage {
+  put(key: string, body: Uint8Array, contentType?: string): Promise<void>;
+  get(key: string): Promise<StoredObject | undefined>;
+  delete(key: string): Promise<void>;
+  /**
+   * URL the object is publicly served from, for backends with their own
+   * public endpoint. Objects are otherwise served by `/api/uploads/files`.
+   */
+  getPublicUrl?(key: string): string;
+  /**
+   * Deletes the entries directly under `prefix` that haven't changed for
+   * `maxAgeMs`, for backends without their own expiry. S3 buckets should
+   * expire them with a lifecycle rule instead.
+   */
+  deleteExpired?(prefix: string, maxAgeMs: number): Promise<void>;
+}
+
+/**
+ * Stores uploads on the local disk. Only suitable for single-instance
+ * deployments with a persistent filesystem.
+ */
+export function createLocalStorage(root: string): UploadStorage {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, body, contentType) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, body);
+      await writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    },
+    async get(key) {
+      const filePath = resolve(key);
+      try {
+        const body = await readFile(filePath);
+        const meta = JSON.parse(
+          await readFile(`${filePath}.meta.json`, "utf-8").catch(() => "{}"),
+        ) as { contentType?: string };
+        return { body: new Uint8Array(body), contentType: meta.contentType };
+      } catch {
+        return undefined;
+      }
+    },
+    async delete(key) {
+      const filePath = resolve(key);
+      await rm(filePath, { force: true });
+      await rm(`${filePath}.meta.json`, { force: true });
+    },
+    async deleteExpired(prefix, maxAgeMs) {
+      const dir = resolve(prefix);
+      const names = await readdir(dir).catch(() => []);
+      await Promise.all(
+        names.map(async (name) => {
+          const entry = path.join(dir, name);
+          const { mtimeMs } = await stat(entry);
+          if (Date.now() - mtimeMs > maxAgeMs) {
+            await rm(entry, { recursive: true, force: true });
+          }
+        }),
+      );
+    },
+  };
+}
+
+export interface S3StorageOptions {
+  /** e.g. `https://s3.us-east-1.amazonaws.com`, or a MinIO/R2 endpoint */
+  endpoint: string;
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Base URL objects are publicly readable from, e.g. a CDN */
+  publicUrl?: string;
+}
+
+const sha256 = (data: string | Uint8Array) =>
+  createHash("sha256").update(data).digest("hex");
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac("sha256", key).update(data).digest();
+
+const encodeKey = (key: string) =>
+  key
+    .split("/")
+    .map((segment) =>
+      encodeURIComponent(segment).replace(
+        /[!'()*]/g,
+        (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+      ),
+    )
+    .join("/");
+
+/**
+ * Stores uploads in an S3-compatible bucket using path-style requests signed
+ * with AWS Signature Version 4.
+ */
+export function createS3Storage(options: S3StorageOptions): UploadStorage {
+  const endpoint = options.endpoint.replace(/\/$/, "");
+
+  const request = async (
+    method: "GET" | "PUT" | "DELETE",
+    key: string,
+    body?: Uint8Array,
+    contentType?: string,
+  ) => {
+    const url = new URL(`${endpoint}/${options.bucket}/${encodeKey(key)}`);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+    const date = amzDate.slice(0, 8);
+    const headers: Record<string, string> = {
+      host: url.host,
+      "x-amz-content-sha256": sha256(body ?? ""),
+      "x-amz-date": amzDate,
+      ...(contentType ? { "content-type": contentType } : {}),
+    };
+
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      "",
+      ...signedHeaders.map((name) => `${name}:${headers[name]}`),
+      "",
+      signedHeaders.join(";"),
+      headers["x-amz-content-sha256"],
+    ].join("\n");
+    const scope = `${date}/${options.region}/s3/aws4_request`;
+    const stringToSign = [
+      "AWS4-HMAC-SHA256",
+      amzDate,
+      scope,
+      sha256(canonicalRequest),
+    ].join("\n");
+    const signingKey = ["s3", "aws4_request"].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${options.secretAccessKey}`, date), options.region),
+    );
+    const signature = createHmac("sha256", signingKey)
+      .update(stringToSign)
+      .digest("hex");
+
+    const { host: _host, ...requestHeaders } = headers;
+    return fetch(url, {
+      method,
+      body: body ? Buffer.from(body) : undefined,
+      headers: {
+        ...requestHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(";")}, Signature=${signature}`,
+      },
+    });
+  };
+
+  return {
+    async put(key, body, contentType) {
+      const res = await request("PUT", key, body, contentType);
+      if (!res.ok) throw new Error(`S3 PUT ${key} failed: ${res.status}`);
+    },
+    async get(key) {
+      const res = await request("GET", key);
+      if (res.status === 404 || res.status === 403) return undefined;
+      if (!res.ok) throw new Error(`S3 GET ${key} failed: ${res.status}`);
+      return {
+        body: new Uint8Array(await res.arrayBuffer()),
+        contentType: res.headers.get("content-type") ?? undefined,
+      };
+    },
+    async delete(key) {
+      const res = await request("DELETE", key);
+      if (!res.ok && res.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed: ${res.status}`);
+      }
+    },
+    getPublicUrl: options.publicUrl
+      ? (key) => `${options.publicUrl!.replace(/\/$/, "")}/${encodeKey(key)}`
+      : undefined,
+  };
+}
+
+let storage: UploadStorage | undefined;
+
+/**
+ * Returns the storage backend selected by `UPLOAD_STORAGE` ("local" by
+ * default, or "s3").
+ */
+export function getUploadStorage(): UploadStorage {
+  if (storage) return storage;
+
+  if (process.env.UPLOAD_STORAGE === "s3") {
+    const { S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+    if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) {
+      throw new Error(
+        "S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set when UPLOAD_STORAGE=s3",
+      );
+    }
+    const region = process.env.S3_REGION ?? "us-east-1";
+    storage = createS3Storage({
+      endpoint: process.env.S3_ENDPOINT ?? `https://s3.${region}.amazonaws.com`,
+      bucket: S3_BUCKET,
+      region,
+      accessKeyId: S3_ACCESS_KEY_ID,
+      secretAccessKey: S3_SECRET_ACCESS_KEY,
+      publicUrl: process.env.S3_PUBLIC_URL,
+    });
+  } else {
+    storage = createLocalStorage(process.env.UPLOAD_DIR ?? ".uploads");
+  }
+  return storage;
+}
+
+export const UPLOAD_ID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Chunks and metadata of in-progress uploads, removed once completed
+export const STAGING_PREFIX = "staging";
+
+// Uploads not completed within this time are abandoned, and their staged
+// chunks deleted
+export const STAGING_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const getStagingKey = (uploadId: string, name: string) =>
+  `${STAGING_PREFIX}/${uploadId}/${name}`;
+
+export const getFileKey = (uploadId: string, filename: string) =>
+  `files/${uploadId}/${filename}`;
+
+// Keeps file names to a single path segment, without `/`, `\` or `..`, so
+// they can't address other keys when used in a storage key
+export function sanitizeFilename(filename: string): string {
+  const sanitized = filename
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/\.{2,}/g, ".")
+    .slice(-100);
+  return sanitized === "." ? "file" : sanitized || "file";
+}
@@ -0,0 +1,68 @@
+// Chunks stay well below API gateway body limits, which is what makes large
+// attachments fail when they're embedded in the message as base64
+export const UPLOAD_CHUNK_SIZE = 1024 * 1024;
+export const MAX_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+export interface CreateUploadRequest {
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface CompleteUploadRequest {
+  chunks: number;
+}
+
+async function uploadRequest<T>(url: string, init: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    throw new Error(body.error ?? `Upload failed with status ${res.status}`);
+  }
+  return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+/**
+ * Uploads a file to `/api/uploads` in chunks and returns the stable URL it
+ * can be fetched from, for use as a `url` source content block.
+ */
+export async function uploadFile(
+  file: Blob,
+  filename: string,
+  mimeType: string,
+): Promise<string> {
+  const { uploadId } = await uploadRequest<{ uploadId: string }>(
+    "/api/uploads",
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        filename,
+        mimeType,
+        size: file.size,
+      } satisfies CreateUploadRequest),
+    },
+  );
+
+  const chunks = Math.max(1, Math.ceil(file.size / UPLOAD_CHUNK_SIZE));
+  for (let index = 0; index < chunks; index += 1) {
+    await uploadRequest<void>(`/api/uploads/${uploadId}?index=${index}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: file.slice(
+        index * UPLOAD_CHUNK_SIZE,
+        (index + 1) * UPLOAD_CHUNK_SIZE,
+      ),
+    });
+  }
+
+  const { url } = await uploadRequest<{ url: string }>(
+    `/api/uploads/${uploadId}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ chunks } satisfies CompleteUploadRequest),
+    },
+  );
+  return url;
+}
@@ -4,6 +4,7 @@ import React, {
   ReactNode,
   useState,
   useEffect,
+  useRef,
 } from "react";
 import { useStream } from "@langchain/langgraph-sdk/react";
 import { type Message } from "@langchain/langgraph-sdk";
@@ -22,11 +23,24 @@ import { Label } from "@/components/ui/label";
 import { ArrowRight } from "lucide-react";
 import { PasswordInput } from "@/components/ui/password-input";
 import { getApiKey } from "@/lib/api-key";
+import { SHARE_API_PREFIX } from "@/lib/thread-sharing";
+import { cancelActiveRuns, toStoppedMessage } from "@/lib/stopped-messages";
 import { useThreads } from "./Thread";
 import { toast } from "sonner";
 import { useSession } from "next-auth/react";
-
-export type StateType = { messages: Message[]; ui?: UIMessage[] };
+import { isNetworkError, useResumeRun } from "@/hooks/use-resume-run";
+import { type RunConfig, useRunConfig } from "@/hooks/use-run-config";
+import {
+  getAssistantMetadata,
+  getThreadAssistantId,
+  isThreadBoundTo,
+} from "@/lib/assistants";
+
+export type StateType = {
+  messages: Message[];
+  ui?: UIMessage[];
+  title?: string;
+};
 
 const useTypedStream = useStream<
   StateType,
@@ -40,7 +54,29 @@ const useTypedStream = useStream<
   }
 >;
 
-type StreamContextType = ReturnType<typeof useTypedStream>;
+type StreamContextType = ReturnType<typeof useTypedStream> & {
+  /**
+   * Stops the client stream and cancels the run on the server, saving the
+   * partial AI message to the thread marked as stopped.
+   */
+  stopRun: () => Promise<void>;
+  /**
+   * Stops streaming the active run, whether submitted here or rejoined,
+   * without cancelling it on the server, e.g. before submitting a message
+   * which interrupts it.
+   */
+  abortStream: () => void;
+  isStopping: boolean;
+  /** AI messages stopped in this session, before the thread is refetched */
+  stoppedMessageIds: ReadonlySet<string>;
+  /** The connection to a run dropped and is being retried */
+  isReconnecting: boolean;
+  /** The assistant or graph runs are submitted to */
+  assistantId: string;
+  /** Configurable parameters merged into the config of every run */
+  runConfig: RunConfig;
+  setRunConfig: (config: RunConfig) => void;
+};
 const StreamContext = createContext<StreamContextType | undefined>(undefined);
 
 async function sleep(ms = 4000) {
@@ -82,6 +118,9 @@ async function checkGraphStatus(
   }
 }
 
+// How long to wait for `useStream` to refetch history after a resumed run
+const HISTORY_REFRESH_TIMEOUT = 10_000;
+
 const StreamSession = ({
   children,
   apiKey,
@@ -94,15 +133,23 @@ const StreamSession = ({
   assistantId: string;
 }) => {
   const [threadId, setThreadId] = useQueryState("threadId");
-  const { getThreads, setThreads } = useThreads();
+  const [, setAssistantId] = useQueryState("assistantId");
+  const { getThreads, threads, setThreads } = useThreads();
   const { data: session } = useSession();
   const userId = (session?.user as any)?.id;
+  // Threads known to already have a title, so they aren't refetched after every run
+  const titledThreadIds = useRef(new Set<string>());
+  // `useStream` only refetches a thread's history when its ID changes, so
+  // it's briefly unset to pick up the result of a resumed run
+  const [historyRefresh, setHistoryRefresh] = useState<
+    "idle" | "clearing" | "loading"
+  >("idle");
 
   const streamValue = useTypedStream({
     apiUrl,
     apiKey: apiKey ?? undefined,
     assistantId,
-    threadId: threadId ?? null,
+    threadId: historyRefresh === "clearing" ? null : (threadId ?? null),
     onCustomEvent: (event, options) => {
       if (isUIMessage(event) || isRemoveUIMessage(event)) {
         options.mutate((prev) => {
@@ -113,12 +160,18 @@ const StreamSession = ({
     },
     onError: (error: unknown) => {
       console.error("Stream error:", error);
+
+      // Runs continue on the server when the connection drops, so rejoin
+      if (isNetworkError(error) && threadId) {
+        resumeRun.resume(true);
+        return;
+      }
       
       const errorMessage = error instanceof Error ? error.message : String(error);
       
       if (errorMessage.includes("413") || errorMessage.includes("Content Too Large")) {
-        toast.error("Image too large", {
-          description: "Please try uploading a smaller image or reduce the image quality.",
+        toast.error("Message too large", {
+          description: "Please try attaching fewer or smaller files.",
           duration: 5000,
         });
       } else if (errorMessage.includes("timeout") || errorMessage.includes("abort")) {
@@ -133,20 +186,57 @@ const StreamSession = ({
         });
       }
     },
+    onFinish: async (state) => {
+      const id = state.checkpoint?.thread_id;
+      if (!id || titledThreadIds.current.has(id)) return;
+
+      // Prefer a title written by the graph, otherwise summarize the first exchange
+      const { summarizeThreadTitle, getThreadTitle } = await import(
+        "@/lib/thread-title"
+      );
+      const title =
+        typeof state.values.title === "string" && state.values.title.trim()
+          ? state.values.title.trim()
+          : summarizeThreadTitle(state.values.messages ?? []);
+      if (!title) return;
+
+      try {
+        const { createClient } = await import("./client");
+        const client = createClient(apiUrl, apiKey || undefined, userId);
+
+        // Never overwrite a title the user has set by renaming the thread
+        const thread = await client.threads.get(id);
+        titledThreadIds.current.add(id);
+        if (getThreadTitle(thread)) return;
+
+        await client.threads.update(id, { metadata: { title } });
+        setThreads((prev) =>
+          prev.map((t) =>
+            t.thread_id === id
+              ? { ...t, metadata: { ...t.metadata, title } }
+              : t,
+          ),
+        );
+      } catch (error) {
+        console.error("Failed to update thread title:", error);
+      }
+    },
     onThreadId: async (id) => {
+      // Created with the current assistant, so there's nothing to switch to
+      boundThreadId.current = id;
       setThreadId(id);
 
       // If we have a userId and this is a new thread, update its metadata
       if (userId && id) {
         try {
           const { createClient } = await import("./client");
-          const { validate } = await import("uuid");
 
           const client = createClient(apiUrl, apiKey || undefined, userId);
 
-          const metadata = validate(assistantId)
-            ? { assistant_id: assistantId, user_id: userId }
-            : { graph_id: assistantId, user_id: userId };
+          const metadata = {
+            ...getAssistantMetadata(assistantId),
+            user_id: userId,
+          };
 
           // Update the thread with user metadata
           await client.threads.update(id, { metadata });
@@ -161,6 +251,131 @@ const StreamSession = ({
     },
   });
 
+  // Switch to the assistant a thread was created with when it's opened
+  const boundThreadId = useRef<string | null>(null);
+  useEffect(() => {
+    if (!threadId || boundThreadId.current === threadId) return;
+    boundThreadId.current = threadId;
+
+    const listed = threads.find((t) => t.thread_id === threadId);
+    const getThread = listed
+      ? Promise.resolve(listed)
+      : streamValue.client.threads.get(threadId);
+    getThread
+      .then((thread) => {
+        const threadAssistantId = getThreadAssistantId(thread);
+        if (threadAssistantId && !isThreadBoundTo(thread, assistantId)) {
+          setAssistantId(threadAssistantId);
+        }
+      })
+      .catch((error) =>
+        console.error("Failed to fetch thread assistant:", error),
+      );
+    // Only checked once per opened thread, not whenever the list changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [threadId]);
+
+  const resumeRun = useResumeRun<StateType>({
+    client: streamValue.client,
+    threadId: threadId ?? null,
+    isLoading: streamValue.isLoading,
+    onRunEnd: () => setHistoryRefresh("clearing"),
+  });
+  const { clearValues: clearResumedValues } = resumeRun;
+
+  useEffect(() => {
+    if (historyRefresh === "clearing") setHistoryRefresh("loading");
+  }, [historyRefresh]);
+  // Keep showing the resumed run's values until the refetched history is in
+  useEffect(() => {
+    if (historyRefresh === "loading" && streamValue.history.length > 0) {
+      setHistoryRefresh("idle");
+      clearResumedValues();
+    }
+  }, [historyRefresh, streamValue.history.length, clearResumedValues]);
+  // `useStream` ignores errors refetching history, and a thread without
+  // checkpoints has none, so check for ourselves whether any history is
+  // coming. If it is but `useStream`'s fetch failed, give up after a while.
+  useEffect(() => {
+    if (historyRefresh !== "loading") return;
+    let cancelled = false;
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const settle = () => {
+      if (cancelled) return;
+      setHistoryRefresh("idle");
+      clearResumedValues();
+    };
+    if (!threadId) {
+      settle();
+      return;
+    }
+    streamValue.client.threads
+      .getHistory(threadId, { limit: 1 })
+      .then((history) => {
+        if (history.length === 0) settle();
+        else timeout = setTimeout(settle, HISTORY_REFRESH_TIMEOUT);
+      })
+      .catch((error) => {
+        console.error("Failed to refetch thread history:", error);
+        settle();
+      });
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [historyRefresh, threadId, streamValue.client, clearResumedValues]);
+
+  const { runConfig, setRunConfig } = useRunConfig(assistantId);
+
+  const [isStopping, setIsStopping] = useState(false);
+  const [stoppedMessageIds, setStoppedMessageIds] = useState<
+    ReadonlySet<string>
+  >(new Set());
+
+  const values = resumeRun.values ?? streamValue.values;
+  const messages = resumeRun.values?.messages ?? streamValue.messages;
+
+  const stopRun = async () => {
+    const partial = messages.at(-1);
+    const wasResumed = resumeRun.status !== "idle";
+    streamValue.stop();
+    resumeRun.abort();
+
+    const stopped =
+      partial?.type === "ai" ? toStoppedMessage(partial) : undefined;
+    if (stopped?.id) {
+      setStoppedMessageIds((prev) => new Set(prev).add(stopped.id!));
+    }
+    if (!threadId) return;
+
+    // Aborting the stream doesn't reliably cancel the run through proxies,
+    // and the run would otherwise keep calling tools in the background.
+    setIsStopping(true);
+    try {
+      await cancelActiveRuns(streamValue.client, threadId);
+      // Partial output is only streamed, never checkpointed, so save it
+      if (stopped) {
+        await streamValue.client.threads.updateState(threadId, {
+          values: { messages: [stopped] },
+        });
+      }
+    } catch (error) {
+      console.error("Failed to stop run:", error);
+      toast.error("Failed to stop the run", {
+        description: "It may still be running in the background.",
+      });
+    } finally {
+      setIsStopping(false);
+      if (wasResumed) setHistoryRefresh("clearing");
+    }
+  };
+
+  const abortStream = () => {
+    streamValue.stop();
+    resumeRun.abort();
+    clearResumedValues();
+  };
+
   useEffect(() => {
     checkGraphStatus(apiUrl, apiKey).then((ok) => {
       if (!ok) {
@@ -180,7 +395,42 @@ const StreamSession = ({
   }, [apiKey, apiUrl]);
 
   return (
-    <StreamContext.Provider value={streamValue}>
+    <StreamContext.Provider
+      value={{
+        ...streamValue,
+        values,
+        messages,
+        isLoading:
+          streamValue.isLoading ||
+          resumeRun.status !== "idle" ||
+          historyRefresh !== "idle",
+        // A dropped connection is retried rather than reported
+        error: resumeRun.status !== "idle" ? undefined : streamValue.error,
+        // Let runs outlive the page, so they can be rejoined after a reload.
+        // Every run is told which user started it.
+        submit: (values, options) =>
+          streamValue.submit(values, {
+            onDisconnect: "continue",
+            ...options,
+            config: {
+              ...options?.config,
+              configurable: {
+                ...(userId ? { user_id: userId } : {}),
+                ...runConfig,
+                ...options?.config?.configurable,
+              },
+            },
+          }),
+        stopRun,
+        abortStream,
+        isStopping,
+        stoppedMessageIds,
+        isReconnecting: resumeRun.status === "reconnecting",
+        assistantId,
+        runConfig,
+        setRunConfig,
+      }}
+    >
       {children}
     </StreamContext.Provider>
   );
@@ -340,6 +590,67 @@ export const StreamProvider: React.FC<{ children: ReactNode }> = ({
   );
 };
 
+const ReadOnlyStreamSession = ({
+  children,
+  apiUrl,
+  threadId,
+}: {
+  children: ReactNode;
+  apiUrl: string;
+  threadId: string;
+}) => {
+  const assistantId =
+    process.env.NEXT_PUBLIC_ASSISTANT_ID || DEFAULT_ASSISTANT_ID;
+  const streamValue = useTypedStream({
+    apiUrl,
+    assistantId,
+    threadId,
+  });
+
+  return (
+    <StreamContext.Provider
+      value={{
+        ...streamValue,
+        stopRun: async () => streamValue.stop(),
+        abortStream: streamValue.stop,
+        isStopping: false,
+        stoppedMessageIds: new Set(),
+        isReconnecting: false,
+        assistantId,
+        runConfig: {},
+        setRunConfig: () => {},
+      }}
+    >
+      {children}
+    </StreamContext.Provider>
+  );
+};
+
+/**
+ * Provides the stream context for a shared thread, read through the share
+ * API without authentication. Runs can't be submitted through it.
+ */
+export const ReadOnlyStreamProvider: React.FC<{
+  children: ReactNode;
+  threadId: string;
+}> = ({ children, threadId }) => {
+  // The SDK client needs an absolute URL, which is only known in the browser
+  const [apiUrl, setApiUrl] = useState<string | null>(null);
+  useEffect(() => {
+    setApiUrl(`${window.location.origin}/api/${SHARE_API_PREFIX}`);
+  }, []);
+
+  if (!apiUrl) return null;
+  return (
+    <ReadOnlyStreamSession
+      apiUrl={apiUrl}
+      threadId={threadId}
+    >
+      {children}
+    </ReadOnlyStreamSession>
+  );
+};
+
 // Create a custom hook to use the context
 export const useStreamContext = (): StreamContextType => {
   const context = useContext(StreamContext);
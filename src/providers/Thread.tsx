@@ -1,5 +1,10 @@
 import { getApiKey } from "@/lib/api-key";
-import { Thread } from "@langchain/langgraph-sdk";
+import {
+  Message,
+  Metadata,
+  Thread,
+  ThreadStatus,
+} from "@langchain/langgraph-sdk";
 import { useQueryState } from "nuqs";
 import { useSession } from "next-auth/react";
 import {
@@ -7,11 +12,37 @@ import {
   useContext,
   ReactNode,
   useCallback,
+  useEffect,
+  useMemo,
+  useRef,
   useState,
   Dispatch,
   SetStateAction,
 } from "react";
+import { toast } from "sonner";
+import { validate } from "uuid";
 import { createClient } from "./client";
+import { parseThreadSearchQuery } from "@/components/thread/history/utils";
+import { SHARED_METADATA_KEY } from "@/lib/thread-sharing";
+import { getAssistantMetadata } from "@/lib/assistants";
+import {
+  getResponsePreferences,
+  PREFERRED_RESPONSES_METADATA_KEY,
+  type ResponsePreference,
+} from "@/lib/response-comparison";
+
+export interface ThreadFilters {
+  /**
+   * Search box text. `key:value` tokens filter on thread metadata,
+   * anything else is matched against thread content.
+   */
+  query: string;
+  status?: ThreadStatus;
+  /**
+   * Whether to include threads archived from the history sidebar.
+   */
+  showArchived?: boolean;
+}
 
 interface ThreadContextType {
   getThreads: () => Promise<Thread[]>;
@@ -21,6 +52,19 @@ interface ThreadContextType {
   threadsLoading: boolean;
   setThreadsLoading: Dispatch<SetStateAction<boolean>>;
   hasMoreThreads: boolean;
+  filters: ThreadFilters;
+  setFilters: Dispatch<SetStateAction<ThreadFilters>>;
+  renameThread: (threadId: string, title: string) => Promise<boolean>;
+  setThreadPinned: (threadId: string, pinned: boolean) => Promise<boolean>;
+  setThreadArchived: (threadId: string, archived: boolean) => Promise<boolean>;
+  setThreadShared: (threadId: string, shared: boolean) => Promise<boolean>;
+  setPreferredResponse: (
+    threadId: string,
+    forkCheckpointId: string,
+    preference: ResponsePreference,
+  ) => Promise<boolean>;
+  deleteThread: (threadId: string) => Promise<void>;
+  importThread: (messages: Message[]) => Promise<string>;
 }
 
 const ThreadContext = createContext<ThreadContextType | undefined>(undefined);
@@ -42,11 +86,32 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
   const [threads, setThreads] = useState<Thread[]>([]);
   const [threadsLoading, setThreadsLoading] = useState(false);
   const [hasMoreThreads, setHasMoreThreads] = useState(true);
+  const [filters, setFilters] = useState<ThreadFilters>({ query: "" });
   const { data: session } = useSession();
 
   // Extract userId to fix dependency array warning
   const userId = (session?.user as any)?.id;
 
+  // Free text is matched client-side, so only refetch when the parts of the
+  // query that are sent to the server change.
+  const metadataFilterKey = JSON.stringify(
+    parseThreadSearchQuery(filters.query).metadata,
+  );
+  const statusFilter = filters.status;
+  const searchFilters = useMemo(
+    () => ({
+      metadata: { ...JSON.parse(metadataFilterKey), user_id: userId },
+      ...(statusFilter ? { status: statusFilter } : {}),
+    }),
+    [metadataFilterKey, statusFilter, userId],
+  );
+  // Filters of the latest request, so pages requested for earlier filters
+  // can be discarded
+  const searchFiltersRef = useRef(searchFilters);
+  useEffect(() => {
+    searchFiltersRef.current = searchFilters;
+  }, [searchFilters]);
+
   const getThreads = useCallback(async (): Promise<Thread[]> => {
     if (!apiUrl || !assistantId || !userId) return [];
 
@@ -54,7 +119,7 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
 
     try {
       const threads = await client.threads.search({
-        metadata: { user_id: userId },
+        ...searchFilters,
         limit: 5, // Small chunks to avoid payload limits
         offset: 0,
         sortBy: "updated_at",
@@ -69,7 +134,7 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
         console.warn("Payload too large, retrying with smaller limit");
         try {
           const smallerThreads = await client.threads.search({
-            metadata: { user_id: userId },
+            ...searchFilters,
             limit: 2, // Even smaller if we hit limits
             offset: 0,
             sortBy: "updated_at",
@@ -85,7 +150,7 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
       console.error("Error fetching threads:", error);
       return [];
     }
-  }, [apiUrl, assistantId, userId]);
+  }, [apiUrl, assistantId, userId, searchFilters]);
 
   const loadMoreThreads = useCallback(async (): Promise<void> => {
     if (!apiUrl || !assistantId || !userId || !hasMoreThreads) return;
@@ -94,19 +159,186 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
 
     try {
       const moreThreads = await client.threads.search({
-        metadata: { user_id: userId },
+        ...searchFilters,
         limit: 5, // Small chunks to stay under limits
         offset: threads.length,
         sortBy: "updated_at",
         sortOrder: "desc",
       });
 
+      if (searchFiltersRef.current !== searchFilters) return;
       setThreads(prev => [...prev, ...moreThreads]);
       setHasMoreThreads(moreThreads.length === 5);
     } catch (error) {
       console.error("Error loading more threads:", error);
     }
-  }, [apiUrl, assistantId, userId, hasMoreThreads, threads.length]);
+  }, [
+    apiUrl,
+    assistantId,
+    userId,
+    hasMoreThreads,
+    threads.length,
+    searchFilters,
+  ]);
+
+  // Applies a metadata patch to the local thread list immediately, then
+  // persists it. The previous metadata is restored if the request fails.
+  const updateThreadMetadata = useCallback(
+    async (
+      threadId: string,
+      metadata: Metadata,
+      errorMessage: string,
+    ): Promise<boolean> => {
+      const previous = threads.find((t) => t.thread_id === threadId);
+
+      setThreads((prev) =>
+        prev.map((t) =>
+          t.thread_id === threadId
+            ? { ...t, metadata: { ...t.metadata, ...metadata } }
+            : t,
+        ),
+      );
+
+      try {
+        const client = createClient(apiUrl, getApiKey() ?? undefined, userId);
+        await client.threads.update(threadId, { metadata });
+        return true;
+      } catch (error) {
+        console.error(`${errorMessage}:`, error);
+        toast.error(errorMessage);
+        if (previous) {
+          setThreads((prev) =>
+            prev.map((t) =>
+              t.thread_id === threadId
+                ? { ...t, metadata: previous.metadata }
+                : t,
+            ),
+          );
+        }
+        return false;
+      }
+    },
+    [apiUrl, userId, threads],
+  );
+
+  const renameThread = useCallback(
+    (threadId: string, title: string) =>
+      updateThreadMetadata(threadId, { title }, "Failed to rename thread"),
+    [updateThreadMetadata],
+  );
+
+  const setThreadPinned = useCallback(
+    (threadId: string, pinned: boolean) =>
+      updateThreadMetadata(
+        threadId,
+        { pinned },
+        pinned ? "Failed to pin thread" : "Failed to unpin thread",
+      ),
+    [updateThreadMetadata],
+  );
+
+  const setThreadArchived = useCallback(
+    (threadId: string, archived: boolean) =>
+      updateThreadMetadata(
+        threadId,
+        { archived },
+        archived ? "Failed to archive thread" : "Failed to unarchive thread",
+      ),
+    [updateThreadMetadata],
+  );
+
+  const setThreadShared = useCallback(
+    (threadId: string, shared: boolean) =>
+      updateThreadMetadata(
+        threadId,
+        { [SHARED_METADATA_KEY]: shared },
+        shared ? "Failed to share thread" : "Failed to stop sharing thread",
+      ),
+    [updateThreadMetadata],
+  );
+
+  // Preferences for every fork share one metadata key, so they're merged with
+  // the thread's saved preferences rather than the possibly stale local list
+  const setPreferredResponse = useCallback(
+    async (
+      threadId: string,
+      forkCheckpointId: string,
+      preference: ResponsePreference,
+    ): Promise<boolean> => {
+      const errorMessage = "Failed to save preferred response";
+      let metadata: Metadata;
+      try {
+        const client = createClient(apiUrl, getApiKey() ?? undefined, userId);
+        metadata = (await client.threads.get(threadId)).metadata;
+      } catch (error) {
+        console.error(`${errorMessage}:`, error);
+        toast.error(errorMessage);
+        return false;
+      }
+      return updateThreadMetadata(
+        threadId,
+        {
+          [PREFERRED_RESPONSES_METADATA_KEY]: {
+            ...getResponsePreferences(metadata),
+            [forkCheckpointId]: preference,
+          },
+        },
+        errorMessage,
+      );
+    },
+    [apiUrl, userId, updateThreadMetadata],
+  );
+
+  const deleteThread = useCallback(
+    async (threadId: string) => {
+      const index = threads.findIndex((t) => t.thread_id === threadId);
+      if (index === -1) return;
+      const previous = threads[index];
+
+      setThreads((prev) => prev.filter((t) => t.thread_id !== threadId));
+
+      try {
+        const client = createClient(apiUrl, getApiKey() ?? undefined, userId);
+        await client.threads.delete(threadId);
+      } catch (error) {
+        console.error("Failed to delete thread:", error);
+        toast.error("Failed to delete thread");
+        setThreads((prev) => [
+          ...prev.slice(0, index),
+          previous,
+          ...prev.slice(index),
+        ]);
+      }
+    },
+    [apiUrl, userId, threads],
+  );
+
+  // Creates a new thread seeded with the given messages, and returns its ID
+  const importThread = useCallback(
+    async (messages: Message[]): Promise<string> => {
+      const client = createClient(apiUrl, getApiKey() ?? undefined, userId);
+
+      const graphId = validate(assistantId)
+        ? (await client.assistants.get(assistantId)).graph_id
+        : assistantId;
+      const metadata = {
+        ...getAssistantMetadata(assistantId),
+        user_id: userId,
+      };
+
+      const thread = await client.threads.create({ metadata, graphId });
+      await client.threads.updateState(thread.thread_id, {
+        values: { messages },
+      });
+
+      setThreads((prev) => [
+        { ...thread, values: { messages } },
+        ...prev.filter((t) => t.thread_id !== thread.thread_id),
+      ]);
+      return thread.thread_id;
+    },
+    [apiUrl, assistantId, userId],
+  );
 
   const value = {
     getThreads,
@@ -116,6 +348,15 @@ export function ThreadProvider({ children }: { children: ReactNode }) {
     threadsLoading,
     setThreadsLoading,
     hasMoreThreads,
+    filters,
+    setFilters,
+    renameThread,
+    setThreadPinned,
+    setThreadArchived,
+    setThreadShared,
+    setPreferredResponse,
+    deleteThread,
+    importThread,
   };
 
   return (